@@ -0,0 +1,25 @@
+import {
+  detectWithLocalModel,
+  localModelAvailability,
+  toErrorResponse,
+} from '@/lib/server/local-model';
+
+// Availability depends on runtime configuration, so never prerender
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  return localModelAvailability();
+}
+
+export async function POST(request: Request) {
+  const { text } = await request.json().catch(() => ({})) as { text?: unknown };
+  if (typeof text !== 'string' || !text.trim()) {
+    return Response.json({ error: 'Request body must include a non-empty "text".' }, { status: 400 });
+  }
+
+  try {
+    return Response.json({ result: await detectWithLocalModel(text) });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
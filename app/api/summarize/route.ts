@@ -0,0 +1,40 @@
+import {
+  localModelAvailability,
+  parseSummarizerOptions,
+  summarizeStreamingWithLocalModel,
+  summarizeWithLocalModel,
+  toErrorResponse,
+  toTextStreamResponse,
+} from '@/lib/server/local-model';
+
+// Availability depends on runtime configuration, so never prerender
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  return localModelAvailability();
+}
+
+export async function POST(request: Request) {
+  const { text, options, stream } = await request.json().catch(() => ({})) as {
+    text?: unknown;
+    options?: unknown;
+    stream?: unknown;
+  };
+  if (typeof text !== 'string' || !text.trim()) {
+    return Response.json({ error: 'Request body must include a non-empty "text".' }, { status: 400 });
+  }
+
+  const summarizerOptions = parseSummarizerOptions(options);
+  if (options !== undefined && !summarizerOptions) {
+    return Response.json({ error: 'Invalid summarizer "options".' }, { status: 400 });
+  }
+
+  try {
+    if (stream === true) {
+      return toTextStreamResponse(await summarizeStreamingWithLocalModel(text, summarizerOptions, request.signal));
+    }
+    return Response.json({ result: await summarizeWithLocalModel(text, summarizerOptions) });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
@@ -0,0 +1,38 @@
+import {
+  localModelAvailability,
+  toErrorResponse,
+  toTextStreamResponse,
+  translateStreamingWithLocalModel,
+  translateWithLocalModel,
+} from '@/lib/server/local-model';
+
+// Availability depends on runtime configuration, so never prerender
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  return localModelAvailability();
+}
+
+export async function POST(request: Request) {
+  const { text, sourceLanguage, targetLanguage, stream } = await request.json().catch(() => ({})) as {
+    text?: unknown;
+    sourceLanguage?: unknown;
+    targetLanguage?: unknown;
+    stream?: unknown;
+  };
+  if (typeof text !== 'string' || !text.trim()) {
+    return Response.json({ error: 'Request body must include a non-empty "text".' }, { status: 400 });
+  }
+  if (typeof sourceLanguage !== 'string' || typeof targetLanguage !== 'string') {
+    return Response.json({ error: 'Request body must include "sourceLanguage" and "targetLanguage".' }, { status: 400 });
+  }
+
+  try {
+    if (stream === true) {
+      return toTextStreamResponse(await translateStreamingWithLocalModel(text, sourceLanguage, targetLanguage, request.signal));
+    }
+    return Response.json({ result: await translateWithLocalModel(text, sourceLanguage, targetLanguage) });
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+}
@@ -0,0 +1,379 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { ArrowLeft, Download, Loader2, RotateCcw, Square, Trash2 } from "lucide-react"
+import { BatchInput } from "@/components/batch-input"
+import { DownloadConsentCard } from "@/components/model-consent"
+import { getTextAIProvider, type SummarizerOptions } from "@/lib/ai";
+import { setupLanguageDetector, setupSummarizer } from "@/lib/ai/capabilities";
+import { createDownloadConsent, type ConsentState } from "@/lib/ai/model-consent";
+import { LANGUAGE_DETECTOR_MODEL, modelKey, SUMMARIZER_MODEL } from "@/lib/ai/model-manager";
+import { DEFAULT_SUMMARIZER_OPTIONS, describeSummarizerOptions } from "@/lib/ai/summarizer-options";
+import {
+  batchResultsToCSV,
+  processBatchItem,
+  SOURCE_LANGUAGE_UNKNOWN,
+  type BatchItem,
+  type BatchResult,
+} from "@/lib/batch";
+import { DEFAULT_CHUNK_TOKEN_BUDGET } from "@/lib/chunking";
+import { downloadFile } from "@/lib/export";
+import { loadGlossary } from "@/lib/glossary";
+import { createJobQueue, type Job, type JobStatus } from "@/lib/job-queue";
+import { languageDirection, languageName, TRANSLATION_LANGUAGES } from "@/lib/languages";
+import { isOnline } from "@/lib/network";
+import { loadSetting, saveSetting } from "@/lib/settings";
+import { translationMemory } from "@/lib/translation-memory";
+
+const provider = getTextAIProvider();
+// Answers are shared with the main page through the saved consent setting
+const downloadConsent = createDownloadConsent();
+
+const DEFAULT_CONCURRENCY = 2;
+// Select value for detecting each item's language
+const DETECT_SOURCE_LANGUAGE = 'detect';
+const MAX_CONCURRENCY = 8;
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  queued: 'bg-gray-100 text-gray-700',
+  running: 'bg-blue-100 text-blue-700',
+  done: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+  cancelled: 'bg-yellow-100 text-yellow-800',
+};
+
+const preview = (text: string, length: number = 80): string =>
+  text.length > length ? `${text.slice(0, length)}…` : text;
+
+export default function BatchPage() {
+  const queueRef = useRef(createJobQueue<BatchResult>(DEFAULT_CONCURRENCY));
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [jobs, setJobs] = useState<Map<string, Job<BatchResult>>>(new Map());
+  const [sourceLanguage, setSourceLanguage] = useState<string>(DETECT_SOURCE_LANGUAGE);
+  const [targetLanguages, setTargetLanguages] = useState<string[]>(['en']);
+  const [summarize, setSummarize] = useState<boolean>(false);
+  const [concurrency, setConcurrency] = useState<number>(DEFAULT_CONCURRENCY);
+  const [summarizerOptions, setSummarizerOptions] = useState<SummarizerOptions>(DEFAULT_SUMMARIZER_OPTIONS);
+  const [chunkTokenBudget, setChunkTokenBudget] = useState<number>(DEFAULT_CHUNK_TOKEN_BUDGET);
+  const [error, setError] = useState<string>('');
+  const [consentState, setConsentState] = useState<ConsentState>({ pending: [], consents: {} });
+  // Models are set up before a run starts, which may wait for a download answer
+  const [isPreparing, setIsPreparing] = useState<boolean>(false);
+
+  useEffect(() => {
+    setSummarizerOptions(loadSetting('summarizerOptions', DEFAULT_SUMMARIZER_OPTIONS));
+    setChunkTokenBudget(loadSetting('chunkTokenBudget', DEFAULT_CHUNK_TOKEN_BUDGET));
+    const savedConcurrency = loadSetting('batchConcurrency', DEFAULT_CONCURRENCY);
+    setConcurrency(savedConcurrency);
+    queueRef.current.setConcurrency(savedConcurrency);
+  }, []);
+
+  useEffect(() => downloadConsent.subscribe(setConsentState), []);
+
+  useEffect(() => {
+    const queue = queueRef.current;
+    const unsubscribe = queue.subscribe(list => setJobs(new Map(list.map(job => [job.id, job]))));
+    return () => {
+      unsubscribe();
+      queue.cancelAll();
+    };
+  }, []);
+
+  const handleConcurrencyChange = (value: number) => {
+    const next = Math.min(MAX_CONCURRENCY, Math.max(1, Math.round(value) || 1));
+    setConcurrency(next);
+    saveSetting('batchConcurrency', next);
+    queueRef.current.setConcurrency(next);
+  };
+
+  const toggleTargetLanguage = (code: string) => {
+    setTargetLanguages(prev =>
+      prev.includes(code) ? prev.filter(language => language !== code) : [...prev, code]
+    );
+  };
+
+  const handleAdd = (added: BatchItem[]) => {
+    setError('');
+    setItems(prev => [...prev, ...added]);
+  };
+
+  // Items without a run yet, and those that failed for want of a source language
+  const needsRun = (item: BatchItem): boolean => {
+    const job = jobs.get(item.id);
+    return !job || (job.status === 'failed' && job.error === SOURCE_LANGUAGE_UNKNOWN);
+  };
+
+  // Goes through the same setup and download consent as the main page, so
+  // batch mode never downloads a model the user has not agreed to
+  const prepareModels = async (): Promise<{ detectLanguage: boolean } | null> => {
+    const detectLanguage = await setupLanguageDetector(provider, {
+      confirmDownload: () => downloadConsent.request(LANGUAGE_DETECTOR_MODEL),
+    });
+    if (!summarize) return { detectLanguage };
+
+    const result = await setupSummarizer(provider, {
+      isOnline,
+      confirmDownload: () => downloadConsent.request(SUMMARIZER_MODEL),
+    });
+    if (result.status === 'ready') return { detectLanguage };
+    if (result.status === 'declined') {
+      setError('The summarizer model has not been downloaded. Allow the download to summarize, or turn off Summarize.');
+    } else {
+      setError(result.message ?? 'The summarizer is not available.');
+    }
+    return null;
+  };
+
+  const handleStart = async () => {
+    if (targetLanguages.length === 0 && !summarize) {
+      setError('Choose at least one target language or enable summarization.');
+      return;
+    }
+    setError('');
+    setIsPreparing(true);
+    const prepared = await prepareModels();
+    setIsPreparing(false);
+    if (!prepared) return;
+
+    // Options are captured now, so changing them later only affects new runs
+    const options = {
+      detectLanguage: prepared.detectLanguage,
+      sourceLanguage: sourceLanguage === DETECT_SOURCE_LANGUAGE ? undefined : sourceLanguage,
+      targetLanguages,
+      summarize,
+      summarizer: summarizerOptions,
+      maxTokens: chunkTokenBudget,
+      glossary: loadGlossary(),
+      memory: loadSetting('translationMemory', true) ? translationMemory : undefined,
+    };
+    for (const item of items.filter(needsRun)) {
+      queueRef.current.enqueue(item.id, signal => processBatchItem(provider, item.text, options, signal));
+    }
+  };
+
+  const handleRemove = (id: string) => {
+    queueRef.current.cancel(id);
+    setItems(prev => prev.filter(item => item.id !== id));
+  };
+
+  const handleClear = () => {
+    queueRef.current.clear();
+    setItems([]);
+  };
+
+  const handleDownload = () => {
+    downloadFile({
+      fileName: `batch-results-${new Date().toISOString().slice(0, 10)}.csv`,
+      content: batchResultsToCSV(items, jobs, targetLanguages),
+      mimeType: 'text/csv',
+    });
+  };
+
+  const pendingCount = items.filter(needsRun).length;
+  const activeCount = [...jobs.values()].filter(job => job.status === 'queued' || job.status === 'running').length;
+  const doneCount = [...jobs.values()].filter(job => job.status === 'done').length;
+
+  return (
+    <main className="container mx-auto p-4 max-w-6xl min-h-screen space-y-4">
+      <div className="flex items-center gap-4">
+        <Button asChild size="sm" variant="outline">
+          <Link href="/">
+            <ArrowLeft />
+            Back
+          </Link>
+        </Button>
+        <h1 className="text-4xl font-bold">Batch Processing</h1>
+      </div>
+
+      <BatchInput onAdd={handleAdd} onError={setError} />
+
+      <Card className="p-4 space-y-4">
+        <div className="space-y-2">
+          <span className="block text-sm font-medium">Translate into</span>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-x-4 gap-y-2 max-h-48 overflow-y-auto">
+            {TRANSLATION_LANGUAGES.map(({ code, name }) => (
+              <label key={code} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={targetLanguages.includes(code)}
+                  onChange={() => toggleTargetLanguage(code)}
+                />
+                {name}
+              </label>
+            ))}
+          </div>
+        </div>
+        <div className="flex flex-wrap items-end gap-6">
+          <label className="space-y-1 text-sm">
+            <span className="block font-medium">Source language</span>
+            <Select value={sourceLanguage} onValueChange={setSourceLanguage}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DETECT_SOURCE_LANGUAGE}>Detect automatically</SelectItem>
+                {TRANSLATION_LANGUAGES.map(({ code, name }) => (
+                  <SelectItem key={code} value={code}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </label>
+          <label className="flex items-center gap-2 text-sm h-9">
+            <input type="checkbox" checked={summarize} onChange={(e) => setSummarize(e.target.checked)} />
+            Summarize ({describeSummarizerOptions(summarizerOptions)})
+          </label>
+          <label className="space-y-1 text-sm">
+            <span className="block font-medium">Items at a time</span>
+            <Input
+              type="number"
+              min={1}
+              max={MAX_CONCURRENCY}
+              value={concurrency}
+              onChange={(e) => handleConcurrencyChange(Number(e.target.value))}
+              className="w-24"
+            />
+          </label>
+        </div>
+        <p className="text-sm text-gray-500">
+          Summarizer options, chunk size, the glossary and translation memory come from the main page.
+        </p>
+      </Card>
+
+      {consentState.pending.map(model => (
+        <DownloadConsentCard
+          key={modelKey(model)}
+          model={model}
+          onChoose={(choice) => downloadConsent.answer(model, choice)}
+        />
+      ))}
+
+      {error && (
+        <div className="p-4 bg-red-100 border border-red-400 text-red-700 rounded">
+          {error}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button onClick={handleStart} disabled={pendingCount === 0 || isPreparing}>
+          {isPreparing && <Loader2 className="animate-spin" />}
+          Process {pendingCount} {pendingCount === 1 ? 'item' : 'items'}
+        </Button>
+        <Button variant="outline" onClick={() => queueRef.current.cancelAll()} disabled={activeCount === 0}>
+          <Square />
+          Cancel all
+        </Button>
+        <Button variant="outline" onClick={handleDownload} disabled={doneCount === 0}>
+          <Download />
+          Download CSV
+        </Button>
+        <Button variant="outline" onClick={handleClear} disabled={items.length === 0}>
+          <Trash2 />
+          Clear
+        </Button>
+        {jobs.size > 0 && (
+          <span className="text-sm text-gray-500">
+            {doneCount} of {jobs.size} done
+          </span>
+        )}
+      </div>
+
+      {items.length > 0 && (
+        <Card className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left">
+              <tr>
+                <th className="p-2 font-medium">Source</th>
+                <th className="p-2 font-medium">Status</th>
+                <th className="p-2 font-medium">Language</th>
+                <th className="p-2 font-medium">Result</th>
+                <th className="p-2 font-medium" />
+              </tr>
+            </thead>
+            <tbody>
+              {items.map(item => {
+                const job = jobs.get(item.id);
+                const status = job?.status;
+                return (
+                  <tr key={item.id} className="border-t align-top">
+                    <td className="p-2">
+                      <div className="font-medium">{item.label}</div>
+                      <div className="text-gray-500">{preview(item.text)}</div>
+                    </td>
+                    <td className="p-2 whitespace-nowrap">
+                      {status ? (
+                        <span className={`inline-flex items-center gap-1 rounded px-2 py-0.5 text-xs ${STATUS_STYLES[status]}`}>
+                          {status === 'running' && <Loader2 className="h-3 w-3 animate-spin" />}
+                          {status}
+                        </span>
+                      ) : (
+                        <span className="text-gray-400 text-xs">not started</span>
+                      )}
+                      {job && job.attempts > 1 && (
+                        <div className="text-xs text-gray-500 mt-1">attempt {job.attempts}</div>
+                      )}
+                    </td>
+                    <td className="p-2 whitespace-nowrap">
+                      {job?.result?.detectedLanguage
+                        ? `${languageName(job.result.detectedLanguage)} (${((job.result.confidence ?? 0) * 100).toFixed(0)}%)`
+                        : '—'}
+                    </td>
+                    <td className="p-2 space-y-1">
+                      {job?.error && <div className="text-red-600">{job.error}</div>}
+                      {job?.result && Object.entries(job.result.translations).map(([code, text]) => (
+                        <div key={code}>
+                          <span className="font-medium">{languageName(code)}:</span> <span dir={languageDirection(code)}>{preview(text)}</span>
+                        </div>
+                      ))}
+                      {job?.result?.summary && (
+                        <div>
+                          <span className="font-medium">Summary:</span> {preview(job.result.summary)}
+                        </div>
+                      )}
+                    </td>
+                    <td className="p-2">
+                      <div className="flex justify-end gap-1">
+                        {(status === 'failed' || status === 'cancelled') && (
+                          <Button size="sm" variant="ghost" onClick={() => queueRef.current.retry(item.id)}>
+                            <RotateCcw />
+                            Retry
+                          </Button>
+                        )}
+                        {(status === 'queued' || status === 'running') && (
+                          <Button size="sm" variant="ghost" onClick={() => queueRef.current.cancel(item.id)}>
+                            <Square />
+                            Cancel
+                          </Button>
+                        )}
+                        {status !== 'queued' && status !== 'running' && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => handleRemove(item.id)}
+                            aria-label={`Remove ${item.label}`}
+                          >
+                            <Trash2 />
+                          </Button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </Card>
+      )}
+    </main>
+  );
+}
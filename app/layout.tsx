@@ -1,7 +1,8 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import { Inter } from "next/font/google";
 import "./globals.css";
 import { CHROME_TOKENS } from "./config/tokens";
+import { ServiceWorkerRegistration } from "@/components/service-worker-registration";
 
 const inter = Inter({ subsets: ["latin"] });
 
@@ -27,11 +28,19 @@ const getTokens = () => {
 export const metadata: Metadata = {
   title: "AI Text Processor",
   description: "Process text using Chrome's AI APIs",
+  appleWebApp: {
+    capable: true,
+    title: "Text Processor",
+  },
   other: {
     "origin-trial": getTokens(),
   },
 };
 
+export const viewport: Viewport = {
+  themeColor: "#3b82f6",
+};
+
 export default function RootLayout({
   children,
 }: Readonly<{
@@ -39,7 +48,10 @@ export default function RootLayout({
 }>) {
   return (
     <html lang="en">
-      <body className={inter.className}>{children}</body>
+      <body className={inter.className}>
+        {children}
+        <ServiceWorkerRegistration />
+      </body>
     </html>
   );
 }
@@ -0,0 +1,315 @@
+import { act, fireEvent, render, screen, waitFor, within } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CAPABILITY_ERRORS } from '@/lib/ai/capabilities';
+import { createFakeWindowAI, FAKE_AI_SCENARIOS, installFakeWindowAI } from '@/lib/ai/fake-window-ai';
+import { saveSetting } from '@/lib/settings';
+
+// jsdom has no IndexedDB; each test decides what the history store does
+const history = vi.hoisted(() => ({
+  listSessions: vi.fn(),
+  saveSession: vi.fn(),
+  deleteSession: vi.fn(),
+}));
+
+vi.mock('@/lib/history', async (importOriginal) => ({
+  ...await importOriginal<typeof import('@/lib/history')>(),
+  ...history,
+}));
+
+const USER_AGENTS = {
+  chromeDesktop: 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36',
+  chromeMobile: 'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Mobile Safari/537.36',
+  firefoxDesktop: 'Mozilla/5.0 (X11; Linux x86_64; rv:133.0) Gecko/20100101 Firefox/133.0',
+};
+
+const setUserAgent = (userAgent: string) => {
+  Object.defineProperty(window.navigator, 'userAgent', { configurable: true, get: () => userAgent });
+};
+
+const setBrave = (isBrave: boolean) => {
+  Object.defineProperty(window.navigator, 'brave', {
+    configurable: true,
+    value: isBrave ? { isBrave: async () => true } : undefined,
+  });
+};
+
+// Chrome's built-in AI alone, for the errors the server fallback would otherwise cover
+const withoutServerFallback = () => {
+  vi.doMock('@/lib/ai', async (importOriginal) => {
+    const ai = await importOriginal<typeof import('@/lib/ai')>();
+    return { ...ai, getTextAIProvider: ai.createChromeProvider };
+  });
+};
+
+// The page picks its provider when the module loads, so each test gets a fresh copy
+const renderHome = async () => {
+  vi.resetModules();
+  const { default: Home } = await import('./page');
+  render(<Home />);
+};
+
+const expectError = (message: string) =>
+  waitFor(() => {
+    const alerts = screen.queryAllByRole('alert').map(alert => alert.textContent);
+    expect(alerts.join('\n')).toContain(message);
+  });
+
+const consentCard = (name: RegExp) => screen.findByRole('region', { name });
+
+beforeEach(() => {
+  localStorage.clear();
+  history.listSessions.mockResolvedValue([]);
+  history.saveSession.mockResolvedValue(undefined);
+  history.deleteSession.mockResolvedValue(undefined);
+  vi.doUnmock('@/lib/ai');
+  setUserAgent(USER_AGENTS.chromeDesktop);
+  setBrave(false);
+  // installFakeWindowAI overrides it for offline scenarios
+  Object.defineProperty(window.navigator, 'onLine', { configurable: true, get: () => true });
+  // No LOCAL_MODEL_ENDPOINT, so the server routes report nothing available
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(null, { status: 503 })));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  delete window.ai;
+});
+
+describe('Home setup', () => {
+  describe('browser checks', () => {
+    it('rejects Brave', async () => {
+      installFakeWindowAI();
+      setBrave(true);
+      await renderHome();
+      await expectError(CAPABILITY_ERRORS.brave);
+    });
+
+    it('rejects Chrome on mobile', async () => {
+      installFakeWindowAI();
+      setUserAgent(USER_AGENTS.chromeMobile);
+      await renderHome();
+      await expectError(CAPABILITY_ERRORS.mobileChrome('mobile'));
+    });
+
+    it('rejects other browsers', async () => {
+      setUserAgent(USER_AGENTS.firefoxDesktop);
+      await renderHome();
+      await expectError(CAPABILITY_ERRORS.unsupportedBrowser('firefox', 'desktop'));
+    });
+
+    it('explains the flags when Chrome has no window.ai', async () => {
+      withoutServerFallback();
+      await renderHome();
+      await expectError(CAPABILITY_ERRORS.notAvailable);
+    });
+  });
+
+  describe('fake window.ai scenarios', () => {
+    it('readily: sets up without errors', async () => {
+      installFakeWindowAI(FAKE_AI_SCENARIOS.readily);
+      await renderHome();
+      await waitFor(() => expect(screen.queryByText('Setup Required')).toBeNull());
+      expect(screen.queryByRole('alert')).toBeNull();
+    });
+
+    it('after-download: asks first, then sets up once allowed', async () => {
+      installFakeWindowAI(FAKE_AI_SCENARIOS['after-download']);
+      await renderHome();
+      const card = await consentCard(/summarizer download/i);
+      fireEvent.click(within(card).getByRole('button', { name: 'Download now' }));
+      await waitFor(() => expect(screen.queryByText('Setup Required')).toBeNull(), { timeout: 3000 });
+      expect(screen.queryByRole('alert')).toBeNull();
+    });
+
+    it('download-progress: shows how far the download is', async () => {
+      installFakeWindowAI(FAKE_AI_SCENARIOS['download-progress']);
+      await renderHome();
+      const card = await consentCard(/summarizer download/i);
+      fireEvent.click(within(card).getByRole('button', { name: 'Download now' }));
+      expect(await screen.findByText('5% complete', {}, { timeout: 2000 })).toBeTruthy();
+    });
+
+    it('no: the summarizer is unusable', async () => {
+      installFakeWindowAI(FAKE_AI_SCENARIOS.no);
+      await renderHome();
+      await expectError(CAPABILITY_ERRORS.summarizerUnusable);
+    });
+
+    it('rejected: reports why the summarizer failed', async () => {
+      installFakeWindowAI(FAKE_AI_SCENARIOS.rejected);
+      await renderHome();
+      await expectError(CAPABILITY_ERRORS.summarizerFailed('The summarizer model failed to load (simulated).'));
+    });
+
+    it('offline: waits for the network before downloading', async () => {
+      installFakeWindowAI(FAKE_AI_SCENARIOS.offline);
+      await renderHome();
+      await expectError(CAPABILITY_ERRORS.summarizerWaitingForNetwork);
+    });
+
+    it('reports a connection lost during the download', async () => {
+      vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'], shouldAdvanceTime: true });
+      const { setOnline } = installFakeWindowAI(FAKE_AI_SCENARIOS['after-download']);
+      await renderHome();
+      const card = await consentCard(/summarizer download/i);
+      fireEvent.click(within(card).getByRole('button', { name: 'Download now' }));
+      act(() => setOnline(false));
+      // Every retry fails while offline
+      await act(() => vi.advanceTimersByTimeAsync(15000));
+      await expectError(CAPABILITY_ERRORS.networkLostDuringSetup);
+    });
+  });
+
+  describe('failing window.ai', () => {
+    it('reports a summarizer API that throws', async () => {
+      withoutServerFallback();
+      const ai = createFakeWindowAI();
+      window.ai = {
+        ...ai,
+        summarizer: { ...ai.summarizer, capabilities: async () => { throw new Error('Summarizer crashed'); } },
+      };
+      await renderHome();
+      await expectError(CAPABILITY_ERRORS.summarizerApiFailed('Summarizer crashed'));
+    });
+
+    it('reports a summarizer that fails without a reason', async () => {
+      withoutServerFallback();
+      const ai = createFakeWindowAI();
+      window.ai = { ...ai, summarizer: { ...ai.summarizer, create: () => Promise.reject(new Error()) } };
+      await renderHome();
+      await expectError(CAPABILITY_ERRORS.summarizerFailed());
+    });
+
+    it('reports a translator that fails without a reason', async () => {
+      withoutServerFallback();
+      const ai = createFakeWindowAI();
+      // Not an Error, so there is no reason to show
+      window.ai = { ...ai, translator: { ...ai.translator, create: () => Promise.reject('Translator crashed') } };
+      await renderHome();
+      await expectError(CAPABILITY_ERRORS.translatorFailed);
+    });
+  });
+});
+
+const ENGLISH_TEXT = 'The cat is in the garden with the dog and it is happy. '.repeat(4).trim();
+
+const sendText = (text: string) => {
+  const input = screen.getByPlaceholderText('Type your message...');
+  fireEvent.change(input, { target: { value: text } });
+  fireEvent.keyDown(input, { key: 'Enter' });
+};
+
+// The button on the detection result of the text just sent. The welcome
+// message carries a Translate button of its own.
+const resultButton = async (name: string, count: number = name === 'Translate' ? 2 : 1) => {
+  const buttons = await waitFor(() => {
+    const found = screen.getAllByRole('button', { name });
+    expect(found).toHaveLength(count);
+    return found;
+  }, { timeout: 3000 });
+  return buttons[buttons.length - 1];
+};
+
+const waitForSetup = () => waitFor(() => expect(screen.queryByText('Setup Required')).toBeNull(), { timeout: 3000 });
+
+// Server routes answering as if LOCAL_MODEL_ENDPOINT were configured
+const stubServer = () => {
+  vi.stubGlobal('fetch', vi.fn(async (_route: string, init?: RequestInit) => {
+    if (!init?.body) return Response.json({ available: 'readily' });
+    const { text, stream, targetLanguage } = JSON.parse(init.body as string);
+    const result = `[server ${targetLanguage}] ${text}`;
+    return stream ? new Response(result) : Response.json({ result });
+  }));
+};
+
+describe('Home errors', () => {
+  it('asks for text when the input is empty', async () => {
+    installFakeWindowAI();
+    await renderHome();
+    fireEvent.keyDown(screen.getByPlaceholderText('Type your message...'), { key: 'Enter' });
+    await expectError('Please enter some text to process');
+  });
+
+  it('refuses to translate text into its own language', async () => {
+    installFakeWindowAI();
+    await renderHome();
+    await waitForSetup();
+    sendText(ENGLISH_TEXT);
+    fireEvent.click(await resultButton('Translate'));
+    await expectError('Text is already in English. Please select a different target language.');
+  });
+
+  it('reports a summarizer that is not available when asked to summarize', async () => {
+    withoutServerFallback();
+    installFakeWindowAI({ ...FAKE_AI_SCENARIOS.readily, summarizer: 'no' });
+    await renderHome();
+    await expectError(CAPABILITY_ERRORS.summarizerUnusable);
+    sendText(ENGLISH_TEXT);
+    fireEvent.click(await resultButton('Summarize'));
+    await expectError('Summarizer is not available. Please enable experimental AI features in Chrome and restart the browser.');
+  });
+
+  it('reports a summarizer download that is turned off', async () => {
+    saveSetting('modelConsent', { summarizer: 'declined', languageDetector: 'allowed' });
+    installFakeWindowAI({ ...FAKE_AI_SCENARIOS.readily, summarizer: 'after-download' });
+    await renderHome();
+    await waitForSetup();
+    sendText(ENGLISH_TEXT);
+    fireEvent.click(await resultButton('Summarize'));
+    await expectError('Downloading the summarizer model is turned off. Allow it under Settings to summarize text.');
+  });
+
+  it('offers the server fallback for a translator that is not available', async () => {
+    withoutServerFallback();
+    stubServer();
+    saveSetting('targetLanguages', ['es']);
+    // Chrome with the translator flag turned off
+    window.ai = { ...createFakeWindowAI(), translator: undefined } as unknown as NonNullable<Window['ai']>;
+    await renderHome();
+    await expectError(CAPABILITY_ERRORS.notAvailable);
+    sendText(ENGLISH_TEXT);
+    // The detector is set up after the translator, so the language is chosen by hand
+    await screen.findByText('Choose the language:');
+    fireEvent.keyDown(screen.getByRole('combobox'), { key: 'Enter' });
+    const english = within(screen.getByRole('listbox')).getByText('English').closest('[role="option"]')!;
+    fireEvent.keyDown(english, { key: 'Enter' });
+    fireEvent.click(await resultButton('Translate'));
+
+    const message = 'Translator is not available. Please enable experimental AI features in Chrome and restart the browser.';
+    await expectError(message);
+    const notice = screen.getAllByRole('alert').find(alert => alert.textContent?.includes(message));
+    // A flag that is off offers only the server, not a retry
+    expect(within(notice!).queryByRole('button', { name: 'Retry' })).toBeNull();
+
+    fireEvent.click(within(notice!).getByRole('button', { name: 'Try server fallback' }));
+    expect(await screen.findByText(`[server es] ${ENGLISH_TEXT}`, {}, { timeout: 3000 })).toBeTruthy();
+    await waitFor(() => expect(screen.queryByText(message)).toBeNull());
+  });
+
+  it('reports a file that cannot be imported', async () => {
+    installFakeWindowAI();
+    await renderHome();
+    const fileInput = document.querySelector<HTMLInputElement>('input[type="file"]')!;
+    fireEvent.change(fileInput, { target: { files: [new File(['x'], 'photo.png', { type: 'image/png' })] } });
+    await expectError('photo.png: unsupported file type.');
+  });
+
+  it('reports history that cannot be loaded', async () => {
+    history.listSessions.mockRejectedValue(new Error('IndexedDB is unavailable'));
+    installFakeWindowAI();
+    await renderHome();
+    await expectError('Conversation history could not be loaded. Messages in this tab will not be saved.');
+  });
+
+  it('reports history that cannot be saved', async () => {
+    const { createSession } = await import('@/lib/history');
+    history.listSessions.mockResolvedValue([createSession()]);
+    history.saveSession.mockRejectedValue(new Error('QuotaExceededError'));
+    installFakeWindowAI();
+    await renderHome();
+    await waitForSetup();
+    sendText('Hello there');
+    await expectError('Failed to save conversation history.');
+  });
+});
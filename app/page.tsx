@@ -1,526 +1,606 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
+import { Fragment, useState, useEffect, useRef } from 'react';
+import Link from 'next/link';
 import { Button } from "@/components/ui/button"
 import { Textarea } from "@/components/ui/textarea"
 import { Card } from "@/components/ui/card"
-import { Loader2 } from "lucide-react"
+import { BookA, Columns3, FileText, HardDriveDownload, Layers, ListOrdered, Loader2, Paperclip, Settings2, Square, WifiOff } from "lucide-react"
+import { SessionSidebar } from "@/components/session-sidebar"
+import { DetectionSettings } from "@/components/detection-settings"
+import { ErrorNotice } from "@/components/error-notice"
+import { ExportMenu } from "@/components/export-menu"
+import { GlossaryManager } from "@/components/glossary-manager"
+import { DetectedLanguageInfo } from "@/components/language-detection"
+import { MessageContent } from "@/components/message-content"
+import { OperationLineage } from "@/components/operation-lineage"
+import { DownloadConsentCard, ModelConsentSettings } from "@/components/model-consent"
+import { ModelDownloads, ModelsPanel } from "@/components/models-panel"
+import { LanguageMultiSelect } from "@/components/language-multi-select"
+import { TranslationComparison } from "@/components/translation-comparison"
+import { MemorySuggestions, TranslationMemorySettings } from "@/components/translation-memory"
+import { ProcessingSettings } from "@/components/processing-settings"
+import { RecipeManager } from "@/components/recipe-manager"
+import { SummarizerSettings } from "@/components/summarizer-settings"
 import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select"
-import Bowser from "bowser";
-
-type ProcessingType = 'summarize' | 'translate' | 'detect' | null;
+  createServerProvider,
+  getTextAIProvider,
+  isAbortError,
+  type AIModel,
+  type SummarizerOptions,
+  type TextAIProvider,
+} from "@/lib/ai";
+import { setupLanguageDetector, setupSummarizer, setupTranslator } from "@/lib/ai/capabilities";
+import { createDownloadConsent, type ConsentState, type ModelConsent } from "@/lib/ai/model-consent";
+import {
+  createModelManager,
+  LANGUAGE_DETECTOR_MODEL,
+  modelKey,
+  SUMMARIZER_MODEL,
+  type ModelState,
+} from "@/lib/ai/model-manager";
+import { DEFAULT_SUMMARIZER_OPTIONS, describeSummarizerOptions } from "@/lib/ai/summarizer-options";
+import {
+  streamChunkedTranslation,
+  streamHierarchicalSummary,
+  type ChunkProgress,
+} from "@/lib/ai/chunked";
+import { streamDocumentTranslation } from "@/lib/ai/document-translation";
+import { streamSubtitleTranslation } from "@/lib/ai/subtitle-translation";
+import {
+  planTranslationRoute,
+  routeLanguages,
+  routePair,
+  routeRequiresNetwork,
+  type TranslatedSegment,
+  type TranslationRoute,
+} from "@/lib/ai/translation-route";
+import { DEFAULT_CHUNK_TOKEN_BUDGET } from "@/lib/chunking";
+import {
+  DEFAULT_MIN_DETECTION_CONFIDENCE,
+  detectLanguageSpans,
+  detectLanguages,
+  isMixedLanguage,
+  type LanguageDetection,
+} from "@/lib/detection";
+import { detectDocumentFormat } from "@/lib/document-format";
+import {
+  AppError,
+  errorCodeFor,
+  recoveryActions,
+  toErrorInfo,
+  type ErrorInfo,
+  type RecoveryAction,
+} from "@/lib/errors";
+import { EMPTY_GLOSSARY, glossaryOutputTerms, loadGlossary, saveGlossary, type Glossary } from "@/lib/glossary";
+import { addRecentLanguages, languageName } from "@/lib/languages";
+import {
+  DEFAULT_FUZZY_MATCH_THRESHOLD,
+  suggestFromMemory,
+  translationMemory,
+} from "@/lib/translation-memory";
+import { createNetworkQueue, isOnline, subscribeToNetworkStatus } from "@/lib/network";
+import { retryOperation } from "@/lib/retry";
+import {
+  BUILT_IN_RECIPES,
+  describeRecipe,
+  loadRecipes,
+  planRecipe,
+  recipesFor,
+  saveRecipes,
+  type PlannedStep,
+  type Recipe,
+} from "@/lib/recipes";
+import { loadSetting, saveSetting } from "@/lib/settings";
+import {
+  applyMemorySuggestion,
+  createMessageId,
+  createWelcomeMessage,
+  messageLanguage,
+  summaryOptionsOf,
+  translationsOf,
+  type MemorySuggestion,
+  type Message,
+  type MessageOperation,
+} from "@/lib/messages";
+import { importFile, SUPPORTED_FILE_EXTENSIONS, type ImportedFile } from "@/lib/file-import";
+import { parseSubtitles, subtitlesToPlainText } from "@/lib/subtitles";
+import { describeMessageOperation } from "@/lib/export";
+import {
+  createSession,
+  deleteSession,
+  deriveSessionTitle,
+  listSessions,
+  saveSession,
+  type Session,
+} from "@/lib/history";
+
 type APIAvailability = {
   summarizer: boolean;
   translator: boolean;
   languageDetector: boolean;
 };
 
-type DownloadStatus = {
-  isDownloading: boolean;
-  progress: number;
-  total: number;
-  type: 'summarizer' | 'translator' | null;
-};
-
-interface DownloadProgressEvent extends Event {
-  loaded: number;
-  total: number;
-}
-
-type SummarizerInstance = {
-  summarize: (text: string) => Promise<string>;
-  ready: Promise<void>;
-  addEventListener: (event: string, handler: EventListener) => void;
-};
-
-type TranslatorInstance = {
-  translate: (text: string) => Promise<string>;
-  ready?: Promise<void>;
-};
-
-declare global {
-  interface Window {
-    ai?: {
-      summarizer: {
-        capabilities: () => Promise<{ available: 'no' | 'readily' | 'after-download' }>;
-        create: (options?: {
-          monitor?: (m: EventTarget) => void;
-          sharedContext?: string;
-          type?: 'key-points';
-          format?: 'markdown';
-          length?: 'medium';
-        }) => Promise<SummarizerInstance>;
-      };
-      translator: {
-        translateText: (text: string, targetLang: string) => Promise<string>;
-        capabilities: () => Promise<{
-          languagePairAvailable: (source: string, target: string) => Promise<'no' | 'readily' | 'after-download'>;
-        }>;
-        create: (options: {
-          sourceLanguage: string;
-          targetLanguage: string;
-          monitor?: (m: EventTarget) => void;
-        }) => Promise<TranslatorInstance>;
-      };
-      languageDetector?: {
-        capabilities: () => Promise<{ available: 'no' | 'readily' | 'after-download' }>;
-        create: (options?: {
-          monitor?: (m: EventTarget) => void;
-        }) => Promise<{
-          detect: (text: string) => Promise<Array<{ detectedLanguage: string; confidence: number }>>;
-          ready?: Promise<void>;
-        }>;
-      };
-    };
-  }
-}
-
-const LANGUAGES = [
-  { code: 'en', name: 'English' },
-  { code: 'es', name: 'Spanish' },
-  { code: 'fr', name: 'French' },
-  { code: 'de', name: 'German' },  
-  { code: 'pt', name: 'Portuguese' },
-  { code: 'ru', name: 'Russian' },
-  { code: 'zh', name: 'Chinese (Simplified)' },
-  { code: 'ja', name: 'Japanese' },
-  { code: 'ko', name: 'Korean' },
-  { code: 'tr', name: 'Turkish' },
-] as const;
-
-type Message = {
-  id: string;
-  text: string;
-  type: 'input' | 'output';
-  detectedLanguage?: {
-    name: string;
-    code: string;
-    confidence: number;
-  };
-  showSummarize?: boolean;
-  originalText?: string;
-};
-
-// Add new utility functions
-const checkOnlineStatus = (): boolean => {
-  return typeof navigator !== 'undefined' && navigator.onLine;
-};
-
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-const retryOperation = async <T,>(
-  operation: () => Promise<T>,
-  maxRetries: number = 3,
-  delayMs: number = 5000
-): Promise<T> => {
-  let lastError: Error | null = null;
-  
-  for (let i = 0; i < maxRetries; i++) {
-    try {
-      return await operation();
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-      if (i < maxRetries - 1) {
-        await delay(delayMs);
-      }
-    }
-  }
-  
-  throw lastError;
-};
-
-// Replace the browser detection utility with bowser
-const getBrowserInfo = () => {
-  if (typeof window === 'undefined') return { name: 'unknown', isMobile: false };
-  
-  const browser = Bowser.getParser(window.navigator.userAgent);
-  const platformType = browser.getPlatformType();
-  
-  return { 
-    name: browser.getBrowserName().toLowerCase(),
-    isMobile: platformType === 'mobile' || platformType === 'tablet',
-    version: browser.getBrowserVersion(),
-    os: browser.getOSName().toLowerCase(),
-    platform: platformType
-  };
-};
-
-// Add type definition for Brave browser's navigator
-interface BraveNavigator extends Navigator {
-  brave?: {
-    isBrave?: () => Promise<boolean>;
-  };
-}
-
-// Update browser detection utility with proper typing
-const isBraveBrowser = async (): Promise<boolean> => {
-  try {
-    const braveNavigator = navigator as BraveNavigator;
-    return !!(braveNavigator.brave && await braveNavigator.brave.isBrave?.());
-  } catch {
-    return false;
-  }
-};
-
-// Update browser compatibility check with proper typing
-const checkBrowserCompatibility = async () => {
-  const browserInfo = getBrowserInfo();
-  
-  // Chrome desktop on Windows, Mac, or Linux
-  if (browserInfo.name === 'chrome' && !browserInfo.isMobile) {
-    // Check if it's actually Brave
-    const isBrave = await isBraveBrowser();
-    if (isBrave) {
-      return { 
-        compatible: false, 
-        message: 'Brave browser is not supported. The AI features require Google Chrome desktop browser with experimental features enabled.' 
-      };
-    }
-    return { compatible: true, message: null };
-  }
-  
-  // Chrome on mobile/tablet
-  if (browserInfo.name === 'chrome' && browserInfo.isMobile) {
-    return { 
-      compatible: false, 
-      message: `Chrome ${browserInfo.platform} is not supported. The AI features require desktop Chrome browser with experimental features enabled. Please use a desktop computer with Chrome browser.` 
-    };
-  }
-  
-  return { 
-    compatible: false, 
-    message: `${browserInfo.name.charAt(0).toUpperCase() + browserInfo.name.slice(1)} browser on ${browserInfo.platform} is not supported. Please use Google Chrome desktop browser and enable experimental AI features:
-    1. Open chrome://flags in Chrome
-    2. Enable "Experimental AI features"
-    3. Enable "AI Summarization"
-    4. Enable "Translation API"
-    5. Enable "Language Detection API"
-    6. Restart Chrome`
-  };
-};
+// Every operation goes through the model manager so downloads show up in the Models panel
+const models = createModelManager(getTextAIProvider());
+const provider = models.provider;
+const networkQueue = createNetworkQueue();
+const downloadConsent = createDownloadConsent();
+// Offered as a recovery when on-device processing fails
+const serverProvider = createServerProvider();
+// Translators need a real source language, so an undetected one is chosen by the user
+const SOURCE_LANGUAGE_UNKNOWN = 'Source language unknown. Choose the language under the message, then try again.';
 
 export default function Home() {
   const [inputText, setInputText] = useState<string>('');
-  const [messages, setMessages] = useState<Message[]>([{
-    id: 'welcome',
-    text: "👋 Welcome to AI Text Processor! I can help you with:\n\n• Translating text between multiple languages\n• Summarizing long English text into key points\n• Automatically detecting the language of your text\n\nJust type your text in the box below and I'll help you process it!",
-    type: 'output'
-  }]);
+  const [messages, setMessages] = useState<Message[]>(() => [createWelcomeMessage()]);
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState<{
     summarize: boolean;
     translate: boolean;
     detect: boolean;
-  }>({ summarize: false, translate: false, detect: false });
-  const [error, setError] = useState<string | null>(null);
-  const [targetLanguage, setTargetLanguage] = useState<string>('en');
+    recipe: boolean;
+  }>({ summarize: false, translate: false, detect: false, recipe: false });
+  // Errors that do not belong to a message; the rest are stored on their message
+  const [error, setError] = useState<ErrorInfo | null>(null);
+  const [targetLanguages, setTargetLanguages] = useState<string[]>(['en']);
+  const [recentTargetLanguages, setRecentTargetLanguages] = useState<string[]>([]);
+  const [comparingMessageId, setComparingMessageId] = useState<string | null>(null);
+  const [summarizerOptions, setSummarizerOptions] = useState<SummarizerOptions>(DEFAULT_SUMMARIZER_OPTIONS);
+  const [chunkTokenBudget, setChunkTokenBudget] = useState<number>(DEFAULT_CHUNK_TOKEN_BUDGET);
+  const [minDetectionConfidence, setMinDetectionConfidence] = useState<number>(DEFAULT_MIN_DETECTION_CONFIDENCE);
+  const [sentenceDetection, setSentenceDetection] = useState<boolean>(false);
+  const [preserveFormatting, setPreserveFormatting] = useState<boolean>(true);
+  const [showSettings, setShowSettings] = useState<boolean>(false);
   const [apiAvailability, setApiAvailability] = useState<APIAvailability>({
     summarizer: false,
     translator: false,
     languageDetector: false,
   });
-  const [downloadStatus, setDownloadStatus] = useState<DownloadStatus>({
-    isDownloading: false,
-    progress: 0,
-    total: 0,
-    type: null
-  });
-  const [summarizer, setSummarizer] = useState<SummarizerInstance | null>(null);
+  const [modelStates, setModelStates] = useState<ModelState[]>([]);
+  const [consentState, setConsentState] = useState<ConsentState>({ pending: [], consents: {} });
+  // Bumped to run summarizer setup again, e.g. after a declined download is allowed
+  const [summarizerSetupRun, setSummarizerSetupRun] = useState<number>(0);
+  const [summarizerDeclined, setSummarizerDeclined] = useState<boolean>(false);
+  const [showModels, setShowModels] = useState<boolean>(false);
+  const [memoryEnabled, setMemoryEnabled] = useState<boolean>(true);
+  const [fuzzyMatchThreshold, setFuzzyMatchThreshold] = useState<number>(DEFAULT_FUZZY_MATCH_THRESHOLD);
+  const [glossary, setGlossary] = useState<Glossary>(EMPTY_GLOSSARY);
+  const [showGlossary, setShowGlossary] = useState<boolean>(false);
+  // The user's own recipes; built-in ones are added in allRecipes
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [showRecipes, setShowRecipes] = useState<boolean>(false);
+  const [isDraggingFile, setIsDraggingFile] = useState<boolean>(false);
+  const [online, setOnline] = useState<boolean>(true);
+  const [queuedOperations, setQueuedOperations] = useState<number>(0);
+  // Whether the server fallback is configured, so it is only offered when it can work
+  const [canUseServer, setCanUseServer] = useState<boolean>(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortControllersRef = useRef(new Map<string, AbortController>());
 
   // Add scroll to bottom effect
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
 
+  const showError = (err: unknown, fallbackMessage?: string) => {
+    setError(toErrorInfo(err, fallbackMessage));
+  };
+
   useEffect(() => {
     scrollToBottom();
   }, [messages]);
 
   useEffect(() => {
-    const initializeSummarizer = async () => {
-      // Check browser compatibility first
-      const { compatible, message } = await checkBrowserCompatibility();
-      if (!compatible) {
-        setError(message);
-        return;
-      }
+    setSummarizerOptions(loadSetting('summarizerOptions', DEFAULT_SUMMARIZER_OPTIONS));
+    setChunkTokenBudget(loadSetting('chunkTokenBudget', DEFAULT_CHUNK_TOKEN_BUDGET));
+    setTargetLanguages(loadSetting('targetLanguages', ['en']));
+    setRecentTargetLanguages(loadSetting('recentTargetLanguages', []));
+    setMinDetectionConfidence(loadSetting('minDetectionConfidence', DEFAULT_MIN_DETECTION_CONFIDENCE));
+    setSentenceDetection(loadSetting('sentenceDetection', false));
+    setPreserveFormatting(loadSetting('preserveFormatting', true));
+    setGlossary(loadGlossary());
+    setRecipes(loadRecipes());
+    setMemoryEnabled(loadSetting('translationMemory', true));
+    setFuzzyMatchThreshold(loadSetting('fuzzyMatchThreshold', DEFAULT_FUZZY_MATCH_THRESHOLD));
+  }, []);
 
-      // Check online status
-      if (!checkOnlineStatus()) {
-        setError('You are currently offline. Please check your internet connection.');
-        return;
-      }
+  const handleMinDetectionConfidenceChange = (minConfidence: number) => {
+    setMinDetectionConfidence(minConfidence);
+    saveSetting('minDetectionConfidence', minConfidence);
+  };
 
-      // First check if the API is supported
-      if (!('ai' in window) || !window.ai?.summarizer) {
-        setError(`The AI features are not available. Please ensure you:
-          1. Are using Google Chrome desktop browser
-          2. Have enabled experimental AI features in chrome://flags
-          3. Have restarted Chrome after enabling the flags`);        
-        return;
-      }
+  const handleSentenceDetectionChange = (enabled: boolean) => {
+    setSentenceDetection(enabled);
+    saveSetting('sentenceDetection', enabled);
+  };
+
+  const handlePreserveFormattingChange = (enabled: boolean) => {
+    setPreserveFormatting(enabled);
+    saveSetting('preserveFormatting', enabled);
+  };
 
+  const handleMemoryEnabledChange = (enabled: boolean) => {
+    setMemoryEnabled(enabled);
+    saveSetting('translationMemory', enabled);
+  };
+
+  const handleFuzzyMatchThresholdChange = (threshold: number) => {
+    setFuzzyMatchThreshold(threshold);
+    saveSetting('fuzzyMatchThreshold', threshold);
+  };
+
+  const handleGlossaryChange = (next: Glossary) => {
+    setGlossary(next);
+    saveGlossary(next);
+  };
+
+  const handleRecipesChange = (next: Recipe[]) => {
+    setRecipes(next);
+    saveRecipes(next);
+  };
+
+  const allRecipes = [...BUILT_IN_RECIPES, ...recipes];
+
+  const handleTargetLanguagesChange = (languages: string[]) => {
+    setTargetLanguages(languages);
+    saveSetting('targetLanguages', languages);
+  };
+
+  useEffect(() => {
+    setOnline(isOnline());
+    const unsubscribeStatus = subscribeToNetworkStatus(setOnline);
+    const unsubscribeQueue = networkQueue.subscribe(setQueuedOperations);
+    return () => {
+      unsubscribeStatus();
+      unsubscribeQueue();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (provider.id === serverProvider.id || !online) return;
+    serverProvider.checkCompatibility().then(({ compatible }) => setCanUseServer(compatible));
+  }, [online]);
+
+  const handleChunkTokenBudgetChange = (budget: number) => {
+    setChunkTokenBudget(budget);
+    saveSetting('chunkTokenBudget', budget);
+  };
+
+  const handleSummarizerOptionsChange = (options: SummarizerOptions) => {
+    setSummarizerOptions(options);
+    saveSetting('summarizerOptions', options);
+  };
+
+  // Load saved conversations, starting a fresh one on first visit
+  useEffect(() => {
+    const loadSessions = async () => {
       try {
-        // Type assertion to handle the possibly undefined window.ai
-        const ai = window.ai as NonNullable<typeof window.ai>;
-        const { available } = await ai.summarizer.capabilities();        
-        
-        if (available === 'no') {
-          setError('Summarizer API is not usable on this device. Please check Chrome flags and ensure your device meets the requirements.');
-          return;
+        let savedSessions = await listSessions();
+        if (savedSessions.length === 0) {
+          const session = createSession();
+          await saveSession(session);
+          savedSessions = [session];
         }
+        setSessions(savedSessions);
+        setActiveSessionId(savedSessions[0].id);
+        setMessages(savedSessions[0].messages);
+      } catch {
+        showError('Conversation history could not be loaded. Messages in this tab will not be saved.');
+      }
+    };
 
-        if (available === 'after-download') {
-          // Ask for user consent before downloading
-          const startDownload = window.confirm(
-            'The summarizer model needs to be downloaded (size: ~3GB). This will be a one-time download. Do you want to proceed?'
-          );
-          
-          if (!startDownload) {
-            setError('Model download cancelled by user. Some features will be unavailable.');
-            return;
-          }
-        }
+    loadSessions();
+  }, []);
 
-        // Try to create the summarizer instance with progress monitoring and retry mechanism
-        try {
-          const createSummarizerWithRetry = async () => {
-            const summarizerInstance = await ai.summarizer.create({
-              type: 'key-points' as const,
-              format: 'markdown' as const,
-              length: 'medium' as const,
-              sharedContext: 'Summarize the following text into key points, maintaining important details and context.',
-              monitor(m) {
-                // Add network status check to download progress
-                window.addEventListener('offline', () => {
-                  setError('Network connection lost. Download paused.');
-                });
-                
-                window.addEventListener('online', () => {
-                  setError(null);
-                });
-                
-                m.addEventListener('downloadprogress', ((e: Event) => {
-                  const progressEvent = e as DownloadProgressEvent;                
-                  setDownloadStatus({
-                    isDownloading: true,
-                    progress: progressEvent.loaded,
-                    total: progressEvent.total,
-                    type: 'summarizer'
-                  });
-                }) as EventListener);
-              },
-            });
-
-            if (available === 'after-download') {
-              await retryOperation(
-                async () => {
-                  if (!checkOnlineStatus()) {
-                    throw new Error('Network connection lost');
-                  }
-                  await summarizerInstance.ready;
-                },
-                3, // max retries
-                5000 // delay between retries
-              );
-            }
-            
-            return summarizerInstance;
-          };
-
-          const summarizerInstance = await createSummarizerWithRetry();
-          
-          setDownloadStatus(prev => ({ ...prev, isDownloading: false, type: null }));
-          setSummarizer(summarizerInstance);
-          setApiAvailability((prev: APIAvailability) => ({ ...prev, summarizer: true }));
-        } catch (error) {
-          if (!checkOnlineStatus()) {
-            setError('Network connection lost during setup. Please check your internet connection and try again.');
-          } else {
-            setError(
-              error instanceof Error 
-                ? `Failed to initialize summarizer: ${error.message}` 
-                : 'Failed to create summarizer instance. Please try again.'
-            );
-          }
-        }
-      } catch (error) {
-        setError(
-          error instanceof Error 
-            ? `Failed to initialize Summarizer API: ${error.message}` 
-            : 'Failed to initialize Summarizer API. Please ensure Chrome flags are enabled and restart browser.'
-        );
+  // Persist the active conversation whenever its messages change
+  useEffect(() => {
+    const session = sessions.find(s => s.id === activeSessionId);
+    // Wait for streamed output to finish instead of saving every chunk
+    if (!session || session.messages === messages || messages.some(m => m.isStreaming)) return;
+
+    const updatedSession = { ...session, messages, updatedAt: Date.now() };
+    updatedSession.title = deriveSessionTitle(updatedSession);
+    setSessions(prev => prev.map(s => s.id === updatedSession.id ? updatedSession : s));
+    saveSession(updatedSession).catch(() => {
+      showError('Failed to save conversation history.');
+    });
+  }, [messages, sessions, activeSessionId]);
+
+  // Streamed output only reaches the messages on screen, and is saved once it
+  // ends, so the conversation it belongs to stays open until then
+  const isStreaming = messages.some(m => m.isStreaming);
+
+  const handleSelectSession = (id: string) => {
+    const session = sessions.find(s => s.id === id);
+    if (!session || isStreaming) return;
+    setActiveSessionId(id);
+    setMessages(session.messages);
+    setError(null);
+  };
+
+  const handleCreateSession = () => {
+    if (isStreaming) return;
+    const session = createSession();
+    setSessions(prev => [session, ...prev]);
+    setActiveSessionId(session.id);
+    setMessages(session.messages);
+    setError(null);
+    saveSession(session).catch(() => {
+      showError('Failed to save conversation history.');
+    });
+  };
+
+  const handleRenameSession = (id: string, title: string) => {
+    const session = sessions.find(s => s.id === id);
+    if (!session) return;
+    const renamedSession = { ...session, title };
+    setSessions(prev => prev.map(s => s.id === id ? renamedSession : s));
+    saveSession(renamedSession).catch(() => {
+      showError('Failed to save conversation history.');
+    });
+  };
+
+  const handleDeleteSession = async (id: string) => {
+    if (id === activeSessionId && isStreaming) return;
+    try {
+      await deleteSession(id);
+    } catch {
+      showError('Failed to delete conversation.');
+      return;
+    }
+
+    const remainingSessions = sessions.filter(s => s.id !== id);
+    if (remainingSessions.length === 0) {
+      handleCreateSession();
+      setSessions(prev => prev.filter(s => s.id !== id));
+      return;
+    }
+
+    setSessions(remainingSessions);
+    if (id === activeSessionId) {
+      setActiveSessionId(remainingSessions[0].id);
+      setMessages(remainingSessions[0].messages);
+      setError(null);
+    }
+  };
+
+  useEffect(() => models.subscribe(setModelStates), []);
+
+  useEffect(() => downloadConsent.subscribe(setConsentState), []);
+
+  useEffect(() => {
+    const initializeSummarizer = async () => {
+      setSummarizerDeclined(false);
+      const result = await setupSummarizer(provider, {
+        isOnline,
+        confirmDownload: () => downloadConsent.request(SUMMARIZER_MODEL),
+      });
+      if (result.status === 'ready') {
+        setApiAvailability(prev => ({ ...prev, summarizer: true }));
+      } else if (result.status === 'declined') {
+        setSummarizerDeclined(true);
+      } else if (result.status === 'waiting-for-network') {
+        if (result.message) setError({ code: 'network', message: result.message });
+        networkQueue.enqueue(initializeSummarizer);
+      } else if (result.message) {
+        setError({ code: result.code, message: result.message });
       }
     };
 
     initializeSummarizer();
-  }, []);
+  }, [summarizerSetupRun]);
+
+  const handleConsentChange = async (model: AIModel, consent: ModelConsent) => {
+    downloadConsent.setConsent(model, consent);
+    if (consent === 'declined') return;
 
+    // Set up models that were skipped because their download was declined
+    if (model.capability === 'summarizer' && summarizerDeclined) {
+      setSummarizerSetupRun(run => run + 1);
+    }
+    if (model.capability === 'languageDetector' && apiAvailability.translator && !apiAvailability.languageDetector
+      && await setupLanguageDetector(provider, { confirmDownload: () => downloadConsent.request(model) })) {
+      setApiAvailability(prev => ({ ...prev, languageDetector: true }));
+    }
+  };
 
   useEffect(() => {
     const initializeTranslator = async () => {
-      // Check browser compatibility first
-      const { compatible, message } = await checkBrowserCompatibility();
-      if (!compatible) {
-        setError(message);
+      const result = await setupTranslator(provider, { isOnline });
+      if (result.status === 'waiting-for-network') {
+        networkQueue.enqueue(initializeTranslator);
         return;
       }
-
-      // Check online status
-      if (!checkOnlineStatus()) {
-        setError('You are currently offline. Please check your internet connection.');
+      if (result.status === 'failed') {
+        if (result.message) setError({ code: result.code, message: result.message });
         return;
       }
 
-      try {
-        // Check if the APIs are supported
-        const hasTranslator = 'ai' in window && 'translator' in (window.ai || {});
-        const hasLanguageDetector = 'ai' in window && 'languageDetector' in (window.ai || {});
-
-        if (!hasTranslator || !window.ai?.translator) {
-          throw new Error(`The AI features are not available. Please ensure you:
-            1. Are using Google Chrome desktop browser
-            2. Have enabled experimental AI features in chrome://flags
-            3. Have restarted Chrome after enabling the flags`);
-        }
+      setApiAvailability(prev => ({ ...prev, translator: true }));
+      if (await setupLanguageDetector(provider, {
+        confirmDownload: () => downloadConsent.request(LANGUAGE_DETECTOR_MODEL),
+      })) {
+        setApiAvailability(prev => ({ ...prev, languageDetector: true }));
+      }
+    };
 
-        // Initialize translator
-        const initialTranslator = await window.ai.translator.create({
-          sourceLanguage: 'en',
-          targetLanguage: 'es',
-          monitor(m) {
-            m.addEventListener('downloadprogress', ((e: Event) => {
-              const progressEvent = e as DownloadProgressEvent;
-              setDownloadStatus({
-                isDownloading: true,
-                progress: progressEvent.loaded,
-                total: progressEvent.total,
-                type: 'translator'
-              });
-            }) as EventListener);
-          },
-        });
-
-        // Wait for the translator to be ready
-        if (initialTranslator.ready) {
-          await initialTranslator.ready;
-        }
+    initializeTranslator();
+  }, []);
+
+  // Language of the most recent input, used to guess the next translation's source
+  const lastSourceLanguage = [...messages]
+    .reverse()
+    .find(m => m.detectedLanguage && !m.originalText && !summaryOptionsOf(m))
+    ?.detectedLanguage?.code ?? 'en';
 
-        setApiAvailability(prev => ({ ...prev, translator: true }));
-        
-        // Initialize language detector if available
-        if (hasLanguageDetector && window.ai?.languageDetector) {
-          try {
-            const { available } = await window.ai.languageDetector.capabilities();
-            
-            if (available === 'no') {
-              return;
-            }
-
-            const detector = await window.ai.languageDetector.create({
-              monitor(m) {
-                m.addEventListener('downloadprogress', ((e: Event) => {
-                  const progressEvent = e as DownloadProgressEvent;
-                  console.log(`Downloaded detector: ${progressEvent.loaded} of ${progressEvent.total} bytes.`);
-                }) as EventListener);
-              },
-            });
-
-            if (available === 'after-download' && detector.ready) {
-              await detector.ready;
-            }
-
-            // Test the detector
-            const testResult = await detector.detect('Hello, world!');
-            if (testResult && testResult.length > 0) {
-              setApiAvailability(prev => ({ ...prev, languageDetector: true }));
-            }
-          } catch {
-            // Silently handle language detector errors as it's not critical
+  // Pre-warm translators for the selected targets so the next translation starts immediately
+  useEffect(() => {
+    if (!apiAvailability.translator) return;
+
+    const prewarmTranslator = async (targetLanguage: string) => {
+      try {
+        const route = await planTranslationRoute(provider, lastSourceLanguage, targetLanguage);
+        for (const step of route.steps) {
+          // Never start a model download without the user asking for it
+          if (await provider.languagePairAvailability(step) === 'readily') {
+            await provider.prepareTranslator(step);
           }
         }
-        
-        setDownloadStatus(prev => ({ ...prev, isDownloading: false, type: null }));
-      } catch (error) {
-        setError(
-          error instanceof Error 
-            ? error.message 
-            : 'Failed to initialize APIs. Please switch to Google Chrome desktop and enable the required experimental flags.'
-        );
+      } catch {
+        // Pre-warming is best effort; translating will report any error
       }
     };
 
-    initializeTranslator();
-  }, []);
+    targetLanguages
+      .filter(targetLanguage => targetLanguage !== lastSourceLanguage)
+      .forEach(prewarmTranslator);
+  }, [targetLanguages, lastSourceLanguage, apiAvailability.translator]);
+
+  // Only once setup has the detector ready, so a declined download is never started here
+  const detectLanguage = async (text: string): Promise<LanguageDetection> => {
+    if (!apiAvailability.languageDetector) return { candidates: [] };
 
-  const cleanMarkdownFormatting = (text: string): string => {
-    return text
-      .replace(/\*\*/g, '') // Remove bold markers
-      .replace(/\*/g, '•')   // Replace bullet points with dots
-      .replace(/_{1,2}/g, '') // Remove underscores for italic/bold
-      .replace(/#{1,6}\s/g, '') // Remove heading markers
-      .replace(/`/g, ''); // Remove code markers
+    try {
+      return await detectLanguages(provider, text, minDetectionConfidence);
+    } catch {
+      return { candidates: [] };
+    }
   };
 
-  const detectLanguage = async (text: string): Promise<{ name: string; code: string; confidence: number } | undefined> => {
-    if (!window.ai?.languageDetector) return undefined;
-    
+  const updateMessage = (id: string, changes: Partial<Message>) => {
+    setMessages(prev => prev.map(m => m.id === id ? { ...m, ...changes } : m));
+  };
+
+  // Appends `placeholder` and fills it in as output streams. Resolves with the
+  // final text, or whatever arrived before the user pressed Stop.
+  const streamIntoMessage = async (
+    placeholder: Message,
+    start: (signal: AbortSignal) => AsyncIterable<string>
+  ): Promise<string> => {
+    const controller = new AbortController();
+    abortControllersRef.current.set(placeholder.id, controller);
+    setMessages(prev => [...prev.filter(m => m.id !== placeholder.id), { ...placeholder, isStreaming: true }]);
+
+    let text = '';
     try {
-      const detector = await window.ai.languageDetector.create();
-      const results = await detector.detect(text);
-      
-      if (!results || results.length === 0) return undefined;
-      
-      const bestResult = results[0];
-      const languageName = LANGUAGES.find(lang => lang.code === bestResult.detectedLanguage)?.name || bestResult.detectedLanguage;
-      
-      return {
-        name: languageName,
-        code: bestResult.detectedLanguage,
-        confidence: bestResult.confidence
-      };
-    } catch {      
-      return undefined;
+      for await (const partial of start(controller.signal)) {
+        text = partial;
+        updateMessage(placeholder.id, { text });
+      }
+    } catch (error) {
+      if (!isAbortError(error)) {
+        setMessages(prev => prev.filter(m => m.id !== placeholder.id));
+        throw error;
+      }
+    } finally {
+      abortControllersRef.current.delete(placeholder.id);
     }
+
+    if (!text) {
+      setMessages(prev => prev.filter(m => m.id !== placeholder.id));
+    } else {
+      updateMessage(placeholder.id, { isStreaming: false, progress: undefined });
+    }
+    return text;
   };
 
-  const handleSend = async () => {
-    if (!inputText.trim()) {
-      setError('Please enter some text to process');
+  // Swaps the model's translation of one segment for the stored one, and
+  // remembers the choice so the segment is an exact match next time
+  const handleApplySuggestion = (message: Message, suggestion: MemorySuggestion) => {
+    const applied = applyMemorySuggestion(message, suggestion);
+    if (!applied) {
+      showError('The suggestion could not be applied because its translation is no longer in the message.');
       return;
     }
+    updateMessage(message.id, {
+      ...applied,
+      memorySuggestions: message.memorySuggestions?.filter(other => other !== suggestion),
+    });
+    if (message.translationRoute && memoryEnabled) {
+      translationMemory.store(routePair(message.translationRoute), suggestion.source, suggestion.suggestion);
+    }
+  };
+
+  const handleStop = (messageId: string) => {
+    abortControllersRef.current.get(messageId)?.abort();
+  };
 
-    const messageId = Date.now().toString();
+  const submitInput = async (text: string, file?: Omit<ImportedFile, 'text'>) => {
+    const messageId = createMessageId();
     const newMessage: Message = {
       id: messageId,
-      text: inputText,
-      type: 'input'
+      text,
+      type: 'input',
+      documentFormat: detectDocumentFormat(text, file?.fileName),
+      ...file
     };
 
     setMessages(prev => [...prev, newMessage]);
+
+    // Detect language automatically. The result is shown even when detection
+    // fails, so the user can pick the language themselves.
+    const { language: detectedLanguage, candidates } = await detectLanguage(text);
+    const languageSpans = sentenceDetection && apiAvailability.languageDetector
+      ? await detectLanguageSpans(provider, text, minDetectionConfidence)
+      : [];
+    const outputMessage: Message = {
+      id: createMessageId(),
+      text,
+      type: 'output',
+      operation: { type: 'detect', sourceMessageId: messageId, language: detectedLanguage?.code, createdAt: Date.now() },
+      detectedLanguage,
+      languageCandidates: candidates,
+      languageSpans: isMixedLanguage(languageSpans) ? languageSpans : undefined,
+      showSummarize: detectedLanguage?.code === 'en' && text.length > 150,
+      documentFormat: newMessage.documentFormat,
+      ...file
+    };
+    setMessages(prev => [...prev, outputMessage]);
+  };
+
+  const handleLanguageOverride = (messageId: string, code: string) => {
+    const message = messages.find(m => m.id === messageId);
+    if (!message) return;
+    const candidate = message.languageCandidates?.find(c => c.code === code);
+    updateMessage(messageId, {
+      detectedLanguage: { name: languageName(code), code, confidence: candidate?.confidence ?? 1 },
+      languageOverridden: true,
+      operation: message.operation && { ...message.operation, language: code },
+      showSummarize: !summaryOptionsOf(message) && !message.subtitles && code === 'en' && message.text.length > 150
+    });
+  };
+
+  const handleSend = async () => {
+    if (!inputText.trim()) {
+      showError('Please enter some text to process');
+      return;
+    }
+
     setInputText('');
-    setError(null);
+    await submitInput(inputText);
+  };
 
-    // Detect language automatically
-    const detectedLanguage = await detectLanguage(inputText);
-    if (detectedLanguage !== undefined) {
-      const outputMessage: Message = {
-        id: `${messageId}-output`,
-        text: inputText,
-        type: 'output',
-        detectedLanguage,
-        showSummarize: detectedLanguage.code === 'en' && inputText.length > 150
-      };
-      setMessages(prev => [...prev, outputMessage]);
+  // Extracts text from each file in the browser and sends it as an input message
+  const handleFiles = async (files: File[]) => {
+    for (const file of files) {
+      try {
+        const { text, ...imported } = await importFile(file);
+        await submitInput(text, imported);
+      } catch (err) {
+        showError(err, `Failed to import ${file.name}.`);
+      }
     }
   };
 
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDraggingFile(false);
+    handleFiles(Array.from(e.dataTransfer.files));
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -528,380 +608,791 @@ export default function Home() {
     }
   };
 
-  const handleTextProcess = async (type: ProcessingType, messageId: string) => {
+  // Why an on-device operation cannot run yet, if it cannot. 'ask-again' means
+  // the summarizer download was put off and should be offered again.
+  const unavailableReason = (type: 'summarize' | 'translate'): Pick<ErrorInfo, 'code' | 'message'> | 'ask-again' | null => {
+    // A "never" answer has to be changed in settings
+    if (type === 'summarize' && !apiAvailability.summarizer && summarizerDeclined) {
+      return consentState.consents[modelKey(SUMMARIZER_MODEL)] === 'declined'
+        ? { code: 'model-unavailable', message: 'Downloading the summarizer model is turned off. Allow it under Settings to summarize text.' }
+        : 'ask-again';
+    }
+    if (type === 'summarize' && !apiAvailability.summarizer) {
+      return { code: 'flag-disabled', message: 'Summarizer is not available. Please enable experimental AI features in Chrome and restart the browser.' };
+    }
+    if (type === 'translate' && !apiAvailability.translator) {
+      return { code: 'flag-disabled', message: 'Translator is not available. Please enable experimental AI features in Chrome and restart the browser.' };
+    }
+    return null;
+  };
+
+  // Translates `source` along `route` into a new message, so earlier
+  // translations stay. Resolves with the finished message, or nothing if the
+  // user stopped it before any text arrived.
+  const translateMessage = async (
+    source: Message,
+    targetLanguage: string,
+    route: TranslationRoute,
+    backend: TextAIProvider
+  ): Promise<Message | undefined> => {
+    // Subtitle inputs are translated cue by cue so the result stays a valid subtitle file,
+    // and Markdown or HTML piece by piece so the markup stays intact
+    const { subtitles, fileName } = source;
+    const documentFormat = preserveFormatting ? source.documentFormat : undefined;
+
+    const placeholder: Message = {
+      id: createMessageId(),
+      text: '',
+      type: 'output',
+      originalText: source.text, // Store the original text
+      operation: {
+        type: 'translate',
+        sourceMessageId: source.id,
+        options: { targetLanguage },
+        language: targetLanguage,
+        createdAt: Date.now(),
+      },
+      translationRoute: route,
+      documentFormat,
+      fileName: fileName?.replace(/(\.[^.]+)?$/, `.${targetLanguage}$1`)
+    };
+    const segments: TranslatedSegment[] = [];
+    const translatedText = await streamIntoMessage(placeholder, signal => {
+      const options = {
+        signal,
+        glossary,
+        memory: memoryEnabled ? translationMemory : undefined,
+        onSegment: (segment: TranslatedSegment) => segments.push(segment),
+        onProgress: (progress: ChunkProgress) => updateMessage(placeholder.id, { progress })
+      };
+      if (subtitles) return streamSubtitleTranslation(backend, subtitles, route, options);
+      if (documentFormat) {
+        return streamDocumentTranslation(backend, source.text, documentFormat, route, { ...options, maxTokens: chunkTokenBudget });
+      }
+      return streamChunkedTranslation(backend, source.text, route, { ...options, maxTokens: chunkTokenBudget });
+    });
+    if (!translatedText) return undefined;
+
+    const translatedSubtitles = subtitles && parseSubtitles(translatedText, subtitles.format);
+
+    // After translation, update the message with detected language
+    const { language: detectedLanguage } = await detectLanguage(
+      translatedSubtitles ? subtitlesToPlainText(translatedSubtitles) : translatedText
+    );
+    const changes: Partial<Message> = {
+      detectedLanguage,
+      showSummarize: !translatedSubtitles && detectedLanguage?.code === 'en' && translatedText.length > 150,
+      subtitles: translatedSubtitles,
+      glossaryTerms: glossaryOutputTerms(glossary, routePair(route), translatedText),
+      memoryMatches: segments.filter(segment => segment.fromMemory).length,
+      memorySuggestions: memoryEnabled
+        ? await suggestFromMemory(routePair(route), segments, fuzzyMatchThreshold).catch(() => [])
+        : undefined
+    };
+    updateMessage(placeholder.id, changes);
+    return { ...placeholder, text: translatedText, ...changes };
+  };
+
+  // Summarizes `source` into a new message, so earlier summaries stay for
+  // comparison. Resolves with the finished message, or nothing if the user
+  // stopped it before any text arrived.
+  const summarizeMessage = async (
+    source: Message,
+    options: SummarizerOptions,
+    backend: TextAIProvider
+  ): Promise<Message | undefined> => {
+    try {
+      const operation: MessageOperation = {
+        type: 'summarize',
+        sourceMessageId: source.id,
+        options,
+        createdAt: Date.now(),
+      };
+      const placeholder: Message = {
+        id: createMessageId(),
+        text: '',
+        type: 'output',
+        showSummarize: false,
+        operation,
+      };
+      const processedText = await retryOperation(
+        () => streamIntoMessage(
+          placeholder,
+          signal => streamHierarchicalSummary(backend, source.text, {
+            summarizer: options,
+            signal,
+            maxTokens: chunkTokenBudget,
+            onProgress: progress => updateMessage(placeholder.id, { progress })
+          })
+        ),
+        3, // max retries
+        5000 // delay between retries
+      );
+      if (!processedText) return undefined;
+
+      const { language: detectedLanguage } = await detectLanguage(processedText);
+      const changes: Partial<Message> = { detectedLanguage, operation: { ...operation, language: detectedLanguage?.code } };
+      updateMessage(placeholder.id, changes);
+      return { ...placeholder, text: processedText, ...changes };
+    } catch (error) {
+      throw new AppError(
+        errorCodeFor(error),
+        error instanceof Error 
+          ? `Failed to generate summary: ${error.message}` 
+          : 'Failed to generate summary. Please try with different text or try again later.'
+      );
+    }
+  };
+
+  // `backend` is the server provider when the user picks it as a recovery.
+  // A re-run passes the target language or summary options to use instead of the current ones.
+  const handleTextProcess = async (
+    type: 'summarize' | 'translate',
+    messageId: string,
+    {
+      backend = provider,
+      targetLanguages: requestedTargets = targetLanguages,
+      summarizerOptions: requestedOptions = summarizerOptions,
+    }: { backend?: TextAIProvider; targetLanguages?: string[]; summarizerOptions?: SummarizerOptions } = {}
+  ) => {
     const message = messages.find(m => m.id === messageId);
     if (!message) return;
 
-    // Check if APIs are available
-    if (type === 'summarize' && !apiAvailability.summarizer) {
-      setError('Summarizer is not available. Please enable experimental AI features in Chrome and restart the browser.');
+    const fail = (code: ErrorInfo['code'], text: string) => {
+      updateMessage(messageId, { error: { code, message: text, operation: type } });
+    };
+
+    // Check if APIs are available. The server is not set up at startup, so it is just tried.
+    const reason = backend === provider ? unavailableReason(type) : null;
+    if (reason === 'ask-again') {
+      setSummarizerSetupRun(run => run + 1);
       return;
     }
-
-    if (type === 'translate' && !apiAvailability.translator) {
-      setError('Translator is not available. Please enable experimental AI features in Chrome and restart the browser.');
+    if (reason) {
+      fail(reason.code, reason.message);
       return;
     }
 
-    // Store the original message ID to track translations
-    const originalMessageId = messageId.endsWith('-translated') 
-      ? messageId.replace('-translated', '')
-      : messageId;
-    
-    const originalMessage = messages.find(m => m.id === originalMessageId);
-    const textToProcess = originalMessage ? originalMessage.text : message.text;
+    // Translating a translation starts again from the text it was made from
+    const translatedFrom = message.operation?.type === 'translate' ? message.operation.sourceMessageId : undefined;
+    const source = messages.find(m => m.id === translatedFrom) ?? message;
+
+    // Translate from the language detected for the text being translated
+    const sourceLanguage = source.detectedLanguage?.code;
+    if (type === 'translate' && !sourceLanguage) {
+      fail('unsupported-language-pair', SOURCE_LANGUAGE_UNKNOWN);
+      return;
+    }
 
     // Prevent translation to same language
-    if (type === 'translate') {
-      const sourceLanguage = message.detectedLanguage?.code || 'en';
-      if (sourceLanguage === targetLanguage) {
-        setError(`Text is already in ${LANGUAGES.find(lang => lang.code === targetLanguage)?.name}. Please select a different target language.`);
+    const targets = requestedTargets.filter(code => code !== sourceLanguage);
+    if (type === 'translate' && sourceLanguage && targets.length === 0) {
+      fail('unsupported-language-pair', `Text is already in ${languageName(sourceLanguage)}. Please select a different target language.`);
+      return;
+    }
+
+    updateMessage(messageId, { error: undefined });
+    setIsProcessing((prev) => ({ ...prev, [type as string]: true }));
+
+    // Each target gets its own sibling message, so earlier translations into other languages stay
+    const translateInto = async (fromLanguage: string, targetLanguage: string) => {
+      const route = await planTranslationRoute(backend, fromLanguage, targetLanguage);
+      if (!isOnline() && await routeRequiresNetwork(backend, route)) {
+        networkQueue.enqueue(() => translateInto(fromLanguage, targetLanguage).catch(err => {
+          updateMessage(messageId, { error: toErrorInfo(err, 'Failed to translate text. Please try again.', type) });
+        }));
         return;
       }
+      await translateMessage(source, targetLanguage, route, backend);
+    };
+
+    try {
+      if (type === 'translate' && sourceLanguage) {
+        if (targets.length > 1) setComparingMessageId(source.id);
+
+        const recent = addRecentLanguages(recentTargetLanguages, targets);
+        setRecentTargetLanguages(recent);
+        saveSetting('recentTargetLanguages', recent);
+
+        const results = await Promise.allSettled(targets.map(target => translateInto(sourceLanguage, target)));
+        const rejected = results.flatMap((result, index) =>
+          result.status === 'rejected' ? [{ reason: result.reason as unknown, targetLanguage: targets[index] }] : []);
+        if (rejected.length > 0) {
+          const failures = rejected.map(({ reason, targetLanguage }) => {
+            const text = reason instanceof Error ? reason.message : 'Failed to translate text. Please try again.';
+            return targets.length > 1 ? `${languageName(targetLanguage)}: ${text}` : text;
+          });
+          // The first failure decides which recovery is offered
+          throw new AppError(errorCodeFor(rejected[0].reason), failures.join('; '));
+        }
+      } else if (type === 'summarize') {
+        if (!isOnline() && await backend.requiresNetwork({ capability: 'summarizer' })) {
+          networkQueue.enqueue(() => handleTextProcess('summarize', messageId, { backend, summarizerOptions: requestedOptions }));
+          return;
+        }
+
+        await summarizeMessage(message, requestedOptions, backend);
+      }
+    } catch (err) {
+      updateMessage(messageId, { error: toErrorInfo(err, 'An error occurred during processing', type) });
+    } finally {
+      setIsProcessing((prev) => ({ ...prev, [type as string]: false }));
+    }
+  };
+
+  // Runs a recipe's steps one after another, each on the result of the step
+  // before. Every intermediate result is kept as its own message, and a
+  // failure is reported on the message the recipe started from.
+  const handleRunRecipe = async (messageId: string, recipe: Recipe, backend: TextAIProvider = provider) => {
+    const message = messages.find(m => m.id === messageId);
+    if (!message) return;
+
+    const fail = (error: Pick<ErrorInfo, 'code' | 'message'>) => {
+      updateMessage(messageId, { error: { ...error, recipeId: recipe.id } });
+    };
+
+    const sourceLanguage = messageLanguage(message);
+    if (!sourceLanguage) {
+      fail({ code: 'unsupported-language-pair', message: SOURCE_LANGUAGE_UNKNOWN });
+      return;
+    }
+    const plan = planRecipe(recipe, sourceLanguage, targetLanguages);
+    if (!plan) {
+      fail({
+        code: 'unsupported-language-pair',
+        message: `Summaries are made from English text. Add a translation to English before each summary in "${recipe.name}".`,
+      });
+      return;
     }
 
-    if (!checkOnlineStatus()) {
-      setError('You are currently offline. Please check your internet connection.');
+    // Check every step up front rather than stopping halfway through
+    const reasons = backend === provider ? plan.map(step => unavailableReason(step.type)) : [];
+    if (reasons.includes('ask-again')) {
+      setSummarizerSetupRun(run => run + 1);
+      return;
+    }
+    const reason = reasons.find(candidate => candidate !== null);
+    if (reason && reason !== 'ask-again') {
+      fail(reason);
       return;
     }
 
-    setError(null);
-    setIsProcessing((prev) => ({ ...prev, [type as string]: true }));
+    const reportError = (err: unknown) => {
+      const error = toErrorInfo(err, `"${recipe.name}" could not be completed.`);
+      fail({ code: error.code, message: error.message });
+    };
 
-    try {
-      let processedText = '';
-      if (type === 'translate' && window.ai?.translator) {
-        try {
-          // Check if the target language is supported
-          const translatorCapabilities = await window.ai.translator.capabilities();
-          
-          // First try with 'auto' as source
-          const autoAvailability = await translatorCapabilities.languagePairAvailable('auto', targetLanguage);
-
-          if (autoAvailability === 'no') {
-            // Try with specific source language pairs
-            const sourceLanguages = ['en', 'es', 'fr', 'de', 'it'];
-            let supported = false;
-            let bestSourceLanguage = 'en'; // default fallback
-
-            for (const sourceLanguage of sourceLanguages) {
-              const availability = await translatorCapabilities.languagePairAvailable(sourceLanguage, targetLanguage);
-              if (availability !== 'no') {
-                supported = true;
-                bestSourceLanguage = sourceLanguage;
-                break;
-              }
-            }
-
-            if (!supported) {
-              throw new Error(`Translation to ${targetLanguage} is not supported yet. Please try a different language.`);
-            }
-
-            // Create a translator with the best available source language
-            const translatorInstance = await window.ai.translator.create({
-              sourceLanguage: bestSourceLanguage,
-              targetLanguage,
-              monitor(m) {
-                m.addEventListener('downloadprogress', ((e: Event) => {
-                  const progressEvent = e as DownloadProgressEvent;
-                  setDownloadStatus({
-                    isDownloading: true,
-                    progress: progressEvent.loaded,
-                    total: progressEvent.total,
-                    type: 'translator'
-                  });
-                }) as EventListener);
-              },
-            });
-
-            // Wait for the translator to be ready if needed
-            if (translatorInstance.ready) {
-              await translatorInstance.ready;
-            }
-
-            const translatedText = await translatorInstance.translate(textToProcess);
-            
-            processedText = translatedText;
-            
-            // After translation, add new message with detected language
-            const detectedLanguage = await detectLanguage(processedText);
-            const newMessage: Message = {
-              id: `${originalMessageId}-translated`,
-              text: processedText,
-              type: 'output',
-              detectedLanguage,
-              showSummarize: detectedLanguage?.code === 'en' && processedText.length > 150,
-              originalText: textToProcess // Store the original text
-            };
-            
-            // Remove previous translation if it exists
-            setMessages(prev => {
-              const filtered = prev.filter(m => m.id !== `${originalMessageId}-translated`);
-              return [...filtered, newMessage];
-            });
-          } else {
-            // Auto detection is supported, use it
-            const translatorInstance = await window.ai.translator.create({
-              sourceLanguage: 'auto',
-              targetLanguage,
-              monitor(m) {
-                m.addEventListener('downloadprogress', ((e: Event) => {
-                  const progressEvent = e as DownloadProgressEvent;
-                  setDownloadStatus({
-                    isDownloading: true,
-                    progress: progressEvent.loaded,
-                    total: progressEvent.total,
-                    type: 'translator'
-                  });
-                }) as EventListener);
-              },
-            });
-
-            if (translatorInstance.ready) {
-              await translatorInstance.ready;
-            }
-
-            const translatedText = await translatorInstance.translate(textToProcess);
-            
-            processedText = translatedText;
-            
-            // After translation, add new message with detected language
-            const detectedLanguage = await detectLanguage(processedText);
-            const newMessage: Message = {
-              id: `${originalMessageId}-translated`,
-              text: processedText,
-              type: 'output',
-              detectedLanguage,
-              showSummarize: detectedLanguage?.code === 'en' && processedText.length > 150,
-              originalText: textToProcess // Store the original text
-            };
-            
-            // Remove previous translation if it exists
-            setMessages(prev => {
-              const filtered = prev.filter(m => m.id !== `${originalMessageId}-translated`);
-              return [...filtered, newMessage];
-            });
+    // Steps that need the network wait for it, together with the rest of the recipe
+    const runSteps = async (current: Message, language: string, steps: PlannedStep[]): Promise<void> => {
+      for (const [index, step] of steps.entries()) {
+        const resume = () => networkQueue.enqueue(() => runSteps(current, language, steps.slice(index)).catch(reportError));
+
+        if (step.type === 'summarize') {
+          if (!isOnline() && await backend.requiresNetwork({ capability: 'summarizer' })) {
+            resume();
+            return;
           }
-        } catch (translationError) {
-          throw new Error(
-            translationError instanceof Error 
-              ? translationError.message 
-              : 'Failed to translate text. Please try again.'
-          );
+          const summary = await summarizeMessage(current, step.options ?? summarizerOptions, backend);
+          if (!summary) return;
+          current = summary;
+          continue;
         }
-      } else if (type === 'summarize' && summarizer) {
-        try {
-          const summary = await retryOperation(
-            async () => {
-              if (!checkOnlineStatus()) {
-                throw new Error('Network connection lost');
-              }
-              return await summarizer.summarize(message.text);
-            },
-            3, // max retries
-            5000 // delay between retries
-          );
-          
-          processedText = cleanMarkdownFormatting(summary);
-          
-          const detectedLanguage = await detectLanguage(processedText);
-          const newMessage: Message = {
-            id: `${originalMessageId}-summarized`,
-            text: processedText,
-            type: 'output',
-            detectedLanguage,
-            showSummarize: false
-          };
-          setMessages(prev => [...prev, newMessage]);
-        } catch (error) {
-          throw new Error(
-            error instanceof Error 
-              ? `Failed to generate summary: ${error.message}` 
-              : 'Failed to generate summary. Please try with different text or try again later.'
-          );
+
+        const routes = await Promise.all(
+          step.targetLanguages.map(targetLanguage => planTranslationRoute(backend, language, targetLanguage))
+        );
+        if (!isOnline() && (await Promise.all(routes.map(route => routeRequiresNetwork(backend, route)))).some(Boolean)) {
+          resume();
+          return;
         }
+        const translations = await Promise.all(
+          step.targetLanguages.map((targetLanguage, i) => translateMessage(current, targetLanguage, routes[i], backend))
+        );
+        // Later steps continue from the first language
+        if (!translations[0]) return;
+        current = translations[0];
+        language = step.targetLanguages[0];
       }
+    };
+
+    updateMessage(messageId, { error: undefined });
+    setIsProcessing(prev => ({ ...prev, recipe: true }));
+    try {
+      await runSteps(message, sourceLanguage, plan);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'An error occurred during processing');
+      reportError(err);
     } finally {
-      setIsProcessing((prev) => ({ ...prev, [type as string]: false }));
+      setIsProcessing(prev => ({ ...prev, recipe: false }));
     }
   };
 
+  const handleRecoveryAction = (action: RecoveryAction, messageId?: string) => {
+    const failed = messages.find(m => m.id === messageId)?.error;
+    const recipe = allRecipes.find(other => other.id === failed?.recipeId);
+    const runAgain = (backend: TextAIProvider) => {
+      if (!messageId) return;
+      if (recipe) handleRunRecipe(messageId, recipe, backend);
+      else if (failed?.operation) handleTextProcess(failed.operation, messageId, { backend });
+    };
+
+    switch (action) {
+      case 'open-model-settings':
+        setShowModels(true);
+        window.scrollTo({ top: 0, behavior: 'smooth' });
+        break;
+      case 'open-settings':
+        setShowSettings(true);
+        window.scrollTo({ top: 0, behavior: 'smooth' });
+        break;
+      case 'retry':
+        runAgain(provider);
+        break;
+      case 'try-server-fallback':
+        runAgain(serverProvider);
+        break;
+    }
+  };
+
+  // Runs a step again from the same source; the earlier result is kept
+  const handleRerun = (operation: MessageOperation) => {
+    if (operation.type === 'translate') {
+      handleTextProcess('translate', operation.sourceMessageId, { targetLanguages: [operation.options.targetLanguage] });
+    } else if (operation.type === 'summarize') {
+      handleTextProcess('summarize', operation.sourceMessageId, { summarizerOptions: operation.options });
+    }
+  };
+
+  // Like Summarize, recipes are offered for long texts that are not subtitles or summaries
+  const offeredRecipes = (message: Message): Recipe[] => {
+    const language = messageLanguage(message);
+    if (!language || message.id === 'welcome' || message.subtitles || summaryOptionsOf(message) || message.text.length <= 150) {
+      return [];
+    }
+    return recipesFor(allRecipes, language, targetLanguages);
+  };
+
+  const scrollToMessage = (messageId: string) => {
+    document.getElementById(`message-${messageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
   return (
-    <main className="container mx-auto p-4 max-w-4xl min-h-screen flex flex-col">
+    <main className="container mx-auto p-4 max-w-6xl min-h-screen flex flex-col">
       <h1 className="text-4xl font-bold mb-4 text-center">AI Text Processor</h1>
-      
-      <div className="space-y-4 mb-4">
-        {downloadStatus.isDownloading && downloadStatus.type === 'summarizer' && (
-          <Card className="p-6 bg-blue-50 border-blue-200">
-            <h2 className="text-lg font-semibold mb-4">Downloading Summarizer Model...</h2>
-            <div className="w-full bg-gray-200 rounded-full h-2.5">
-              <div 
-                className="bg-blue-600 h-2.5 rounded-full transition-all duration-300"
-                style={{ width: `${(downloadStatus.progress / downloadStatus.total) * 100}%` }}
-              ></div>
+
+      <div className="flex flex-col md:flex-row gap-4 flex-1">
+        <SessionSidebar
+          sessions={[...sessions].sort((a, b) => b.updatedAt - a.updatedAt)}
+          activeSessionId={activeSessionId}
+          onSelect={handleSelectSession}
+          onCreate={handleCreateSession}
+          onRename={handleRenameSession}
+          onDelete={handleDeleteSession}
+          locked={isStreaming}
+        />
+
+        <div className="flex-1 min-w-0 flex flex-col">
+          <div className="space-y-4 mb-4">
+            <div className="flex justify-end gap-2">
+              <Button asChild size="sm" variant="outline">
+                <Link href="/batch">
+                  <Layers />
+                  Batch mode
+                </Link>
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setShowModels(prev => !prev)}
+                aria-pressed={showModels}
+              >
+                <HardDriveDownload />
+                Models
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setShowGlossary(prev => !prev)}
+                aria-pressed={showGlossary}
+              >
+                <BookA />
+                Glossary
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setShowRecipes(prev => !prev)}
+                aria-pressed={showRecipes}
+              >
+                <ListOrdered />
+                Recipes
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setShowSettings(prev => !prev)}
+              >
+                <Settings2 />
+                Settings
+              </Button>
             </div>
-            <p className="text-sm text-gray-600 mt-2">
-              {Math.round((downloadStatus.progress / downloadStatus.total) * 100)}% complete
-            </p>
-          </Card>
-        )}
-
-        {!apiAvailability.summarizer && !downloadStatus.isDownloading && (
-          <Card className="p-6 bg-yellow-50 border-yellow-200">
-            <h2 className="text-lg font-semibold mb-4">Setup Required</h2>
-            <p className="mb-4">To use this application, you need to:</p>
-            <ol className="list-decimal list-inside space-y-2">
-              <li>Use Google Chrome browser</li>
-              <li>Enable experimental AI features in Chrome:
-                <ol className="list-disc list-inside ml-6 mt-2 space-y-1">
-                  <li>Open <code className="bg-gray-100 px-2 py-1 rounded">chrome://flags</code> in your browser</li>
-                  <li>Enable &quot;Experimental AI features&quot;</li>
-                  <li>Enable &quot;AI Summarization&quot;</li>
-                  <li>Enable &quot;Translation API&quot;</li>
-                  <li>Enable &quot;Language Detection API&quot;</li>
-                  <li>Restart Chrome</li>
+
+            {!online && (
+              <div className="flex items-center gap-2 p-3 bg-amber-50 border border-amber-200 rounded text-sm text-amber-800">
+                <WifiOff className="h-4 w-4 shrink-0" />
+                <span>
+                  You are offline. Models already on this device keep working.
+                  {queuedOperations > 0 && ` ${queuedOperations} ${queuedOperations === 1 ? 'operation needs' : 'operations need'} the network and will run when you reconnect.`}
+                </span>
+              </div>
+            )}
+
+            {error && (
+              <ErrorNotice
+                error={error}
+                actions={recoveryActions(error, { canUseServer })}
+                onAction={action => handleRecoveryAction(action)}
+                onDismiss={() => setError(null)}
+              />
+            )}
+
+            {showModels && (
+              <ModelsPanel states={modelStates} onCheck={models.check} onDownload={models.download} />
+            )}
+
+            {showGlossary && (
+              <GlossaryManager glossary={glossary} onChange={handleGlossaryChange} onError={showError} />
+            )}
+
+            {showRecipes && (
+              <RecipeManager recipes={recipes} onChange={handleRecipesChange} />
+            )}
+
+            {showSettings && (
+              <>
+                <SummarizerSettings
+                  options={summarizerOptions}
+                  onChange={handleSummarizerOptionsChange}
+                />
+                <ProcessingSettings
+                  chunkTokenBudget={chunkTokenBudget}
+                  preserveFormatting={preserveFormatting}
+                  onChunkTokenBudgetChange={handleChunkTokenBudgetChange}
+                  onPreserveFormattingChange={handlePreserveFormattingChange}
+                />
+                <DetectionSettings
+                  minConfidence={minDetectionConfidence}
+                  sentenceDetection={sentenceDetection}
+                  onMinConfidenceChange={handleMinDetectionConfidenceChange}
+                  onSentenceDetectionChange={handleSentenceDetectionChange}
+                />
+                <ModelConsentSettings consents={consentState.consents} onChange={handleConsentChange} />
+                <TranslationMemorySettings
+                  enabled={memoryEnabled}
+                  threshold={fuzzyMatchThreshold}
+                  onEnabledChange={handleMemoryEnabledChange}
+                  onThresholdChange={handleFuzzyMatchThresholdChange}
+                  onError={showError}
+                />
+              </>
+            )}
+
+            <ModelDownloads states={modelStates} />
+
+            {consentState.pending.map(model => (
+              <DownloadConsentCard
+                key={modelKey(model)}
+                model={model}
+                state={modelStates.find(state => modelKey(state.model) === modelKey(model))}
+                onChoose={(choice) => downloadConsent.answer(model, choice)}
+              />
+            ))}
+
+            {!apiAvailability.summarizer
+              && !summarizerDeclined
+              && !consentState.pending.some(model => model.capability === 'summarizer')
+              && !modelStates.some(({ model, status }) => model.capability === 'summarizer' && status === 'downloading') && (
+              <Card className="p-6 bg-yellow-50 border-yellow-200">
+                <h2 className="text-lg font-semibold mb-4">Setup Required</h2>
+                <p className="mb-4">To use this application, you need to:</p>
+                <ol className="list-decimal list-inside space-y-2">
+                  <li>Use Google Chrome browser</li>
+                  <li>Enable experimental AI features in Chrome:
+                    <ol className="list-disc list-inside ml-6 mt-2 space-y-1">
+                      <li>Open <code className="bg-gray-100 px-2 py-1 rounded">chrome://flags</code> in your browser</li>
+                      <li>Enable &quot;Experimental AI features&quot;</li>
+                      <li>Enable &quot;AI Summarization&quot;</li>
+                      <li>Enable &quot;Translation API&quot;</li>
+                      <li>Enable &quot;Language Detection API&quot;</li>
+                      <li>Restart Chrome</li>
+                    </ol>
+                  </li>
                 </ol>
-              </li>
-            </ol>
-            <div className="mt-6 p-4 bg-blue-50 rounded-lg">
-              <h3 className="font-semibold mb-2">Additional Resources</h3>
-              <p className="text-sm text-gray-600 mb-4">Note: You may need to turn on experimental feature flags in your Chrome browser to access these native AI APIs.</p>
-              <ul className="space-y-2 text-sm">
-                <li>
-                  <a href="https://developer.chrome.com/docs/ai/" target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
-                    Chrome AI APIs Overview
-                  </a>
-                </li>
-                <li>
-                  <a href="https://developer.chrome.com/docs/ai/summarizer-api" target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
-                    Summarizer API Documentation
-                  </a>
-                </li>
-                <li>
-                  <a href="https://developer.chrome.com/docs/ai/translator-api" target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
-                    Translator API Documentation
-                  </a>
-                </li>
-                <li>
-                  <a href="https://developer.chrome.com/docs/ai/language-detection" target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
-                    Language Detection API Documentation
-                  </a>
-                </li>                
-              </ul>
-            </div>
-          </Card>
-        )}
-      </div>
+                <div className="mt-6 p-4 bg-blue-50 rounded-lg">
+                  <h3 className="font-semibold mb-2">Additional Resources</h3>
+                  <p className="text-sm text-gray-600 mb-4">Note: You may need to turn on experimental feature flags in your Chrome browser to access these native AI APIs.</p>
+                  <ul className="space-y-2 text-sm">
+                    <li>
+                      <a href="https://developer.chrome.com/docs/ai/" target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                        Chrome AI APIs Overview
+                      </a>
+                    </li>
+                    <li>
+                      <a href="https://developer.chrome.com/docs/ai/summarizer-api" target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                        Summarizer API Documentation
+                      </a>
+                    </li>
+                    <li>
+                      <a href="https://developer.chrome.com/docs/ai/translator-api" target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                        Translator API Documentation
+                      </a>
+                    </li>
+                    <li>
+                      <a href="https://developer.chrome.com/docs/ai/language-detection" target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                        Language Detection API Documentation
+                      </a>
+                    </li>                
+                  </ul>
+                </div>
+              </Card>
+            )}
+          </div>
       
-      <Card className="flex-1 p-6 shadow-lg mb-4 overflow-hidden flex flex-col">
-        <div className="flex-1 overflow-y-auto mb-4 space-y-4">
-          {messages.map((message) => (
-            <div
-              key={message.id}
-              className={`flex ${message.type === 'input' ? 'justify-end' : 'justify-start'}`}
-            >
-              <div className={`max-w-[80%] ${
-                message.type === 'input' 
-                  ? 'bg-blue-500 text-white rounded-l-lg rounded-tr-lg' 
-                  : 'bg-gray-100 rounded-r-lg rounded-tl-lg'
-              } p-4`}>
-                <p className="whitespace-pre-wrap">{message.text}</p>
+          <Card
+            className={`flex-1 p-6 shadow-lg mb-4 overflow-hidden flex flex-col ${
+              isDraggingFile ? 'ring-2 ring-blue-400' : ''
+            }`}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setIsDraggingFile(true);
+            }}
+            onDragLeave={() => setIsDraggingFile(false)}
+            onDrop={handleDrop}
+          >
+            <div className="flex items-center justify-between gap-2 mb-4">
+              <h2 className="text-lg font-semibold truncate">
+                {sessions.find(s => s.id === activeSessionId)?.title ?? 'Conversation'}
+              </h2>
+              <ExportMenu
+                title={sessions.find(s => s.id === activeSessionId)?.title ?? 'Conversation'}
+                messages={messages}
+                label="Export conversation"
+                onError={showError}
+              />
+            </div>
+            <div className="flex-1 overflow-y-auto mb-4 space-y-4">
+              {messages.map((message) => (
+                <Fragment key={message.id}>
+                  <div
+                    id={`message-${message.id}`}
+                    className={`flex ${message.type === 'input' ? 'justify-end' : 'justify-start'}`}
+                  >
+                    <div className={`max-w-[80%] ${
+                      message.type === 'input' 
+                        ? 'bg-blue-500 text-white rounded-l-lg rounded-tr-lg' 
+                        : 'bg-gray-100 rounded-r-lg rounded-tl-lg'
+                    } p-4`}>
+                      {message.fileName && (
+                        <p className="flex items-center gap-1 text-xs mb-2 opacity-80">
+                          <FileText className="h-3 w-3" />
+                          {message.fileName}
+                        </p>
+                      )}
+                      <MessageContent message={message} onError={showError} />
                 
-                {message.detectedLanguage && (
-                  <p className="text-sm mt-2 text-gray-600">
-                    Language: {message.detectedLanguage.name} 
-                    ({Math.round(message.detectedLanguage.confidence * 100)}% confidence)
-                  </p>
-                )}
+                      {message.operation?.type === 'summarize' && (
+                        <p className="text-xs mt-2 text-gray-500">
+                          Summary: {describeSummarizerOptions(message.operation.options)}
+                        </p>
+                      )}
+
+                      {message.translationRoute && (
+                        <p className="text-xs mt-2 text-gray-500">
+                          Route: {routeLanguages(message.translationRoute).map(languageName).join(' → ')}
+                          {message.translationRoute.kind === 'pivot' && ' (no direct model, pivoted through English)'}
+                        </p>
+                      )}
+
+                      {!message.isStreaming && (
+                        <OperationLineage
+                          message={message}
+                          messages={messages}
+                          disabled={isProcessing.summarize || isProcessing.translate || isProcessing.recipe}
+                          onSelect={scrollToMessage}
+                          onRerun={handleRerun}
+                        />
+                      )}
+
+                      {!message.isStreaming && (
+                        <MemorySuggestions
+                          memoryMatches={message.memoryMatches}
+                          suggestions={message.memorySuggestions ?? []}
+                          onApply={suggestion => handleApplySuggestion(message, suggestion)}
+                        />
+                      )}
+
+                      {(message.detectedLanguage || message.languageCandidates) && !message.isStreaming && (
+                        <DetectedLanguageInfo
+                          message={message}
+                          onOverride={code => handleLanguageOverride(message.id, code)}
+                        />
+                      )}
                 
-                {message.type === 'output' && (
-                  <div className="mt-2 flex flex-col gap-2">
-                    {error && message.id === messages[messages.length - 1].id && (
-                      <div className="p-3 bg-red-100 border border-red-300 rounded-md text-red-700 text-sm mb-2">
-                        {error}
-                      </div>
-                    )}
-                    <div className="flex gap-2 flex-wrap">
-                      {message.showSummarize && (
-                        <Button
-                          size="sm"
-                          onClick={() => handleTextProcess('summarize', message.id)}
-                          disabled={isProcessing.summarize}
-                        >
-                          {isProcessing.summarize ? (
-                            <>
-                              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                              Summarizing...
-                            </>
-                          ) : (
-                            'Summarize'
+                      {message.isStreaming && message.progress && (
+                        <div className="mt-2">
+                          <p className="text-xs text-gray-600">{message.progress.label}</p>
+                          <div className="w-full bg-gray-200 rounded-full h-1.5 mt-1">
+                            <div
+                              className="bg-blue-600 h-1.5 rounded-full transition-all duration-300"
+                              style={{ width: `${(message.progress.completed / message.progress.total) * 100}%` }}
+                            ></div>
+                          </div>
+                        </div>
+                      )}
+
+                      {message.isStreaming && (
+                        <div className="mt-2 flex items-center gap-2">
+                          <Loader2 className="h-4 w-4 animate-spin text-gray-500" />
+                          <Button size="sm" variant="outline" onClick={() => handleStop(message.id)}>
+                            <Square />
+                            Stop
+                          </Button>
+                        </div>
+                      )}
+
+                      {message.type === 'output' && !message.isStreaming && (
+                        <div className="mt-2 flex flex-col gap-2">
+                          {message.error && (
+                            <ErrorNotice
+                              error={message.error}
+                              actions={recoveryActions(message.error, { canUseServer })}
+                              onAction={action => handleRecoveryAction(action, message.id)}
+                              onDismiss={() => updateMessage(message.id, { error: undefined })}
+                            />
                           )}
-                        </Button>
+                          <div className="flex gap-2 flex-wrap">
+                            {message.showSummarize && (
+                              <Button
+                                size="sm"
+                                onClick={() => handleTextProcess('summarize', message.id)}
+                                disabled={isProcessing.summarize}
+                              >
+                                {isProcessing.summarize ? (
+                                  <>
+                                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                    Summarizing...
+                                  </>
+                                ) : (
+                                  'Summarize'
+                                )}
+                              </Button>
+                            )}
+                            <Button
+                              size="sm"
+                              onClick={() => handleTextProcess('translate', message.id)}
+                              disabled={isProcessing.translate}
+                            >
+                              {isProcessing.translate ? (
+                                <>
+                                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                  Translating...
+                                </>
+                              ) : (
+                                'Translate'
+                              )}
+                            </Button>
+                            {offeredRecipes(message).map(recipe => (
+                              <Button
+                                key={recipe.id}
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleRunRecipe(message.id, recipe)}
+                                disabled={isProcessing.recipe}
+                                title={describeRecipe(recipe)}
+                              >
+                                <ListOrdered />
+                                {recipe.name}
+                              </Button>
+                            ))}
+                            {translationsOf(messages, message.id).length > 0 && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => setComparingMessageId(prev => prev === message.id ? null : message.id)}
+                                aria-pressed={comparingMessageId === message.id}
+                              >
+                                <Columns3 />
+                                Compare ({translationsOf(messages, message.id).length})
+                              </Button>
+                            )}
+                            {message.id !== 'welcome' && (
+                              <ExportMenu
+                                title={describeMessageOperation(message)}
+                                messages={[message]}
+                                onError={showError}
+                              />
+                            )}
+                          </div>
+                        </div>
                       )}
-                      <Button
-                        size="sm"
-                        onClick={() => handleTextProcess('translate', message.id)}
-                        disabled={isProcessing.translate}
-                      >
-                        {isProcessing.translate ? (
-                          <>
-                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                            Translating...
-                          </>
-                        ) : (
-                          'Translate'
-                        )}
-                      </Button>
                     </div>
                   </div>
-                )}
-              </div>
+                  {comparingMessageId === message.id && translationsOf(messages, message.id).length > 0 && (
+                    <TranslationComparison source={message} translations={translationsOf(messages, message.id)} />
+                  )}
+                </Fragment>
+              ))}
+              <div ref={messagesEndRef} />
             </div>
-          ))}
-          <div ref={messagesEndRef} />
-        </div>
 
-        <div className="flex flex-col sm:flex-row gap-4 items-end">
-          <div className="w-full sm:flex-1">
-            <Textarea
-              placeholder="Type your message..."
-              value={inputText}
-              onChange={(e) => {
-                setInputText(e.target.value);
-                setError(null);
-              }}
-              onKeyDown={handleKeyDown}
-              className="min-h-[100px]"
-            />
-          </div>
-          <div className="flex flex-row sm:flex-col gap-2 w-full sm:w-auto">
-              <Select
-                value={targetLanguage}
-                onValueChange={setTargetLanguage}
-              >
-              <SelectTrigger className="w-full sm:w-[150px]">
-                  <SelectValue placeholder="Select language" />
-                </SelectTrigger>
-                <SelectContent>
-                  {LANGUAGES.map((lang) => (
-                    <SelectItem key={lang.code} value={lang.code}>
-                      {lang.name}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            <Button 
-              onClick={handleSend}
-              className="w-full sm:w-[150px]"
-              disabled={!inputText.trim()}
-            >
-              Send
-            </Button>
-          </div>
+            <div className="flex flex-col sm:flex-row gap-4 items-end">
+              <div className="w-full sm:flex-1">
+                <Textarea
+                  placeholder="Type your message..."
+                  value={inputText}
+                  onChange={(e) => setInputText(e.target.value)}
+                  onKeyDown={handleKeyDown}
+                  className="min-h-[100px]"
+                />
+              </div>
+              <div className="flex flex-row sm:flex-col gap-2 w-full sm:w-auto">
+                <LanguageMultiSelect
+                  selected={targetLanguages}
+                  onChange={handleTargetLanguagesChange}
+                  recent={recentTargetLanguages}
+                  className="w-full sm:w-[150px]"
+                />
+                <Button 
+                  onClick={handleSend}
+                  className="w-full sm:w-[150px]"
+                  disabled={!inputText.trim()}
+                >
+                  Send
+                </Button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  multiple
+                  accept={SUPPORTED_FILE_EXTENSIONS.join(',')}
+                  className="hidden"
+                  onChange={(e) => {
+                    handleFiles(Array.from(e.target.files ?? []));
+                    e.target.value = '';
+                  }}
+                />
+                <Button
+                  variant="outline"
+                  onClick={() => fileInputRef.current?.click()}
+                  className="w-full sm:w-[150px]"
+                  title="Import .txt, .md, .docx, .pdf, .srt or .vtt files, or drop them on the conversation"
+                >
+                  <Paperclip />
+                  Import file
+                </Button>
+              </div>
+            </div>
+          </Card>
         </div>
-      </Card>
+      </div>
     </main>
   );
 }
@@ -0,0 +1,191 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { DEFAULT_BATCH_SEPARATOR, splitPastedText, type BatchItem } from "@/lib/batch";
+import { parseCSV } from "@/lib/csv";
+import { importFile, SUPPORTED_FILE_EXTENSIONS } from "@/lib/file-import";
+import { createMessageId } from "@/lib/messages";
+
+type BatchInputProps = {
+  onAdd: (items: BatchItem[]) => void;
+  onError: (message: string) => void;
+};
+
+type InputMode = 'paste' | 'csv' | 'files';
+
+const INPUT_MODES: Array<{ value: InputMode; label: string }> = [
+  { value: 'paste', label: 'Paste text' },
+  { value: 'csv', label: 'CSV column' },
+  { value: 'files', label: 'Files' },
+];
+
+export function BatchInput({ onAdd, onError }: BatchInputProps) {
+  const [mode, setMode] = useState<InputMode>('paste');
+  const [pastedText, setPastedText] = useState<string>('');
+  const [separator, setSeparator] = useState<string>(DEFAULT_BATCH_SEPARATOR);
+  const [csvRows, setCsvRows] = useState<string[][]>([]);
+  const [csvFileName, setCsvFileName] = useState<string>('');
+  const [csvColumn, setCsvColumn] = useState<number>(0);
+  const [csvHasHeader, setCsvHasHeader] = useState<boolean>(true);
+  const [isImporting, setIsImporting] = useState<boolean>(false);
+
+  const addPasted = () => {
+    const entries = splitPastedText(pastedText, separator.trim() || DEFAULT_BATCH_SEPARATOR);
+    if (entries.length === 0) {
+      onError('Paste at least one text to process.');
+      return;
+    }
+    onAdd(entries.map((text, index) => ({ id: createMessageId(), label: `Entry ${index + 1}`, text })));
+    setPastedText('');
+  };
+
+  const loadCsv = async (file: File) => {
+    try {
+      const rows = parseCSV(await file.text());
+      if (rows.length === 0) throw new Error(`${file.name} has no rows.`);
+      setCsvRows(rows);
+      setCsvFileName(file.name);
+      setCsvColumn(0);
+    } catch (err) {
+      onError(err instanceof Error ? err.message : `Failed to read ${file.name}.`);
+    }
+  };
+
+  const addCsv = () => {
+    const dataRows = csvHasHeader ? csvRows.slice(1) : csvRows;
+    const items = dataRows
+      .map((row, index) => ({
+        id: createMessageId(),
+        label: `${csvFileName} row ${index + (csvHasHeader ? 2 : 1)}`,
+        text: (row[csvColumn] ?? '').trim(),
+      }))
+      .filter(item => item.text);
+    if (items.length === 0) {
+      onError('The selected column has no text.');
+      return;
+    }
+    onAdd(items);
+  };
+
+  const addFiles = async (files: File[]) => {
+    setIsImporting(true);
+    const items: BatchItem[] = [];
+    for (const file of files) {
+      try {
+        const { fileName, text } = await importFile(file);
+        items.push({ id: createMessageId(), label: fileName, text });
+      } catch (err) {
+        onError(err instanceof Error ? err.message : `Failed to import ${file.name}.`);
+      }
+    }
+    setIsImporting(false);
+    if (items.length > 0) onAdd(items);
+  };
+
+  const columnCount = Math.max(0, ...csvRows.map(row => row.length));
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div className="flex gap-2 flex-wrap">
+        {INPUT_MODES.map(({ value, label }) => (
+          <Button
+            key={value}
+            size="sm"
+            variant={mode === value ? 'default' : 'outline'}
+            onClick={() => setMode(value)}
+          >
+            {label}
+          </Button>
+        ))}
+      </div>
+
+      {mode === 'paste' && (
+        <div className="space-y-3">
+          <Textarea
+            value={pastedText}
+            onChange={(e) => setPastedText(e.target.value)}
+            placeholder={`First text\n${separator}\nSecond text`}
+            className="min-h-[160px]"
+          />
+          <div className="flex items-end gap-3 flex-wrap">
+            <label className="space-y-1 text-sm">
+              <span className="block font-medium">Separator line</span>
+              <Input value={separator} onChange={(e) => setSeparator(e.target.value)} className="w-32" />
+            </label>
+            <Button onClick={addPasted} disabled={!pastedText.trim()}>Add texts</Button>
+          </div>
+        </div>
+      )}
+
+      {mode === 'csv' && (
+        <div className="space-y-3">
+          <Input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) loadCsv(file);
+            }}
+          />
+          {csvRows.length > 0 && (
+            <div className="flex items-end gap-3 flex-wrap">
+              <label className="space-y-1 text-sm">
+                <span className="block font-medium">Column</span>
+                <Select value={String(csvColumn)} onValueChange={(value) => setCsvColumn(Number(value))}>
+                  <SelectTrigger className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from({ length: columnCount }, (_, index) => (
+                      <SelectItem key={index} value={String(index)}>
+                        {csvHasHeader && csvRows[0][index] ? csvRows[0][index] : `Column ${index + 1}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </label>
+              <label className="flex items-center gap-2 text-sm h-9">
+                <input
+                  type="checkbox"
+                  checked={csvHasHeader}
+                  onChange={(e) => setCsvHasHeader(e.target.checked)}
+                />
+                First row is a header
+              </label>
+              <Button onClick={addCsv}>Add rows</Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {mode === 'files' && (
+        <div className="space-y-2">
+          <Input
+            type="file"
+            multiple
+            accept={SUPPORTED_FILE_EXTENSIONS.join(',')}
+            disabled={isImporting}
+            onChange={(e) => {
+              addFiles(Array.from(e.target.files ?? []));
+              e.target.value = '';
+            }}
+          />
+          <p className="text-sm text-gray-500">
+            Each file becomes one item. Supported types: {SUPPORTED_FILE_EXTENSIONS.join(', ')}.
+          </p>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,50 @@
+'use client';
+
+import { Card } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+
+type DetectionSettingsProps = {
+  minConfidence: number;
+  sentenceDetection: boolean;
+  onMinConfidenceChange: (minConfidence: number) => void;
+  onSentenceDetectionChange: (sentenceDetection: boolean) => void;
+};
+
+export function DetectionSettings({
+  minConfidence,
+  sentenceDetection,
+  onMinConfidenceChange,
+  onSentenceDetectionChange,
+}: DetectionSettingsProps) {
+  return (
+    <Card className="p-4 space-y-3">
+      <h2 className="text-lg font-semibold">Language detection</h2>
+      <label className="block space-y-1 text-sm">
+        <span className="font-medium">Minimum confidence (%)</span>
+        <Input
+          type="number"
+          min={0}
+          max={100}
+          step={5}
+          value={Math.round(minConfidence * 100)}
+          onChange={(e) => {
+            const value = Number(e.target.value);
+            if (Number.isFinite(value) && value >= 0 && value <= 100) onMinConfidenceChange(value / 100);
+          }}
+          className="sm:w-40"
+        />
+        <span className="block text-gray-500">
+          Results below this are not used as the source language; pick one from the candidates instead.
+        </span>
+      </label>
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={sentenceDetection}
+          onChange={(e) => onSentenceDetectionChange(e.target.checked)}
+        />
+        Detect each sentence and highlight passages in other languages
+      </label>
+    </Card>
+  );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import { Button } from "@/components/ui/button"
+import { HardDriveDownload, RotateCcw, Server, Settings2, X } from "lucide-react"
+import { ERROR_TITLES, type ErrorInfo, type RecoveryAction } from "@/lib/errors";
+
+type ErrorNoticeProps = {
+  error: ErrorInfo;
+  actions: RecoveryAction[];
+  onAction: (action: RecoveryAction) => void;
+  onDismiss: () => void;
+};
+
+const ACTIONS: Record<RecoveryAction, { label: string; icon: typeof RotateCcw }> = {
+  'retry': { label: 'Retry', icon: RotateCcw },
+  'open-model-settings': { label: 'Open model settings', icon: HardDriveDownload },
+  'open-settings': { label: 'Open settings', icon: Settings2 },
+  'try-server-fallback': { label: 'Try server fallback', icon: Server },
+};
+
+// An error with what went wrong, the details and what can be done about it.
+// It stays until dismissed or the operation is run again.
+export function ErrorNotice({ error, actions, onAction, onDismiss }: ErrorNoticeProps) {
+  return (
+    <div role="alert" className="p-3 bg-red-100 border border-red-300 rounded-md text-red-700 text-sm space-y-2">
+      <div className="flex items-start justify-between gap-2">
+        <div className="space-y-1 min-w-0">
+          <p className="font-semibold">{ERROR_TITLES[error.code]}</p>
+          <p className="whitespace-pre-wrap break-words">{error.message}</p>
+        </div>
+        <Button size="icon" variant="ghost" className="h-6 w-6 shrink-0" onClick={onDismiss} aria-label="Dismiss error">
+          <X />
+        </Button>
+      </div>
+      {actions.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {actions.map(action => {
+            const { label, icon: Icon } = ACTIONS[action];
+            return (
+              <Button
+                key={action}
+                size="sm"
+                variant="outline"
+                className="h-7 border-red-300 bg-white text-red-700 hover:bg-red-50"
+                onClick={() => onAction(action)}
+              >
+                <Icon />
+                {label}
+              </Button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from "@/components/ui/button"
+import { Download } from "lucide-react"
+import { buildExport, downloadFile, subtitleMessages, type ExportFormat } from "@/lib/export";
+import type { Message } from "@/lib/messages";
+
+type ExportMenuProps = {
+  title: string;
+  messages: Message[];
+  label?: string;
+  onError: (message: string) => void;
+};
+
+const FORMATS: Array<{ value: ExportFormat; label: string }> = [
+  { value: 'markdown', label: 'Markdown (.md)' },
+  { value: 'json', label: 'JSON (.json)' },
+  { value: 'txt', label: 'Plain text (.txt)' },
+  { value: 'subtitles', label: 'Subtitles (.srt/.vtt)' },
+];
+
+export function ExportMenu({ title, messages, label = 'Export', onError }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const hasSubtitles = subtitleMessages(messages).length > 0;
+
+  const handleExport = (format: ExportFormat) => {
+    setIsOpen(false);
+    try {
+      downloadFile(buildExport(format, title, messages));
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Export failed.');
+    }
+  };
+
+  return (
+    <div className="relative inline-block">
+      <Button size="sm" variant="outline" onClick={() => setIsOpen(prev => !prev)} aria-expanded={isOpen}>
+        <Download />
+        {label}
+      </Button>
+      {isOpen && (
+        <ul className="absolute right-0 z-10 mt-1 w-48 rounded-md border bg-white p-1 text-sm text-gray-900 shadow-md">
+          {FORMATS.filter(({ value }) => value !== 'subtitles' || hasSubtitles).map(({ value, label }) => (
+            <li key={value}>
+              <button
+                className="w-full rounded-sm px-2 py-1.5 text-left hover:bg-gray-100"
+                onClick={() => handleExport(value)}
+              >
+                {label}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Download, Plus, Upload, X } from "lucide-react"
+import { downloadFile } from "@/lib/export";
+import {
+  GLOSSARY_FILE_EXTENSIONS,
+  glossaryToCSV,
+  glossaryToTBX,
+  highlightTerms,
+  importGlossary,
+  mergeGlossaries,
+  type Glossary,
+  type GlossaryTerm,
+} from "@/lib/glossary";
+import { languageName, TRANSLATION_LANGUAGES } from "@/lib/languages";
+
+type GlossaryManagerProps = {
+  glossary: Glossary;
+  onChange: (glossary: Glossary) => void;
+  onError: (message: string) => void;
+};
+
+const LanguageSelect = ({ value, onChange, label }: { value: string; onChange: (code: string) => void; label: string }) => (
+  <Select value={value} onValueChange={onChange}>
+    <SelectTrigger aria-label={label}>
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {TRANSLATION_LANGUAGES.map(({ code, name }) => (
+        <SelectItem key={code} value={code}>{name}</SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+const sameTerm = (a: GlossaryTerm, b: GlossaryTerm): boolean =>
+  a.sourceLanguage === b.sourceLanguage && a.targetLanguage === b.targetLanguage && a.source === b.source;
+
+export function GlossaryManager({ glossary, onChange, onError }: GlossaryManagerProps) {
+  const [sourceLanguage, setSourceLanguage] = useState<string>('en');
+  const [targetLanguage, setTargetLanguage] = useState<string>('de');
+  const [source, setSource] = useState<string>('');
+  const [target, setTarget] = useState<string>('');
+  const [protectedTerm, setProtectedTerm] = useState<string>('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleAddTerm = () => {
+    if (!source.trim() || !target.trim()) return;
+    onChange(mergeGlossaries(glossary, {
+      terms: [{ sourceLanguage, targetLanguage, source: source.trim(), target: target.trim() }],
+      protectedTerms: [],
+    }));
+    setSource('');
+    setTarget('');
+  };
+
+  const handleAddProtectedTerm = () => {
+    if (!protectedTerm.trim()) return;
+    onChange(mergeGlossaries(glossary, { terms: [], protectedTerms: [protectedTerm.trim()] }));
+    setProtectedTerm('');
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      onChange(mergeGlossaries(glossary, await importGlossary(file)));
+    } catch (err) {
+      onError(err instanceof Error ? err.message : `Failed to import ${file.name}.`);
+    }
+  };
+
+  const handleExport = (format: 'csv' | 'tbx') => {
+    downloadFile(format === 'csv'
+      ? { fileName: 'glossary.csv', content: glossaryToCSV(glossary), mimeType: 'text/csv' }
+      : { fileName: 'glossary.tbx', content: glossaryToTBX(glossary), mimeType: 'application/x-tbx+xml' });
+  };
+
+  const isEmpty = glossary.terms.length === 0 && glossary.protectedTerms.length === 0;
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold">Glossary</h2>
+        <div className="flex flex-wrap gap-2">
+          <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()}>
+            <Upload />
+            Import
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => handleExport('csv')} disabled={isEmpty}>
+            <Download />
+            CSV
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => handleExport('tbx')} disabled={isEmpty}>
+            <Download />
+            TBX
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={GLOSSARY_FILE_EXTENSIONS.join(',')}
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+      <p className="text-sm text-gray-500">
+        Terms are kept out of the translator and put back with the translation you choose. Imported entries
+        replace existing ones for the same language pair and term.
+      </p>
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium">Terms</h3>
+        <div className="grid grid-cols-2 sm:grid-cols-[8rem_8rem_1fr_1fr_auto] gap-2">
+          <LanguageSelect value={sourceLanguage} onChange={setSourceLanguage} label="Source language" />
+          <LanguageSelect value={targetLanguage} onChange={setTargetLanguage} label="Target language" />
+          <Input value={source} onChange={(e) => setSource(e.target.value)} placeholder="Term" aria-label="Term" />
+          <Input
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddTerm()}
+            placeholder="Translation"
+            aria-label="Translation"
+          />
+          <Button variant="outline" onClick={handleAddTerm} disabled={!source.trim() || !target.trim()}>
+            <Plus />
+            Add
+          </Button>
+        </div>
+        {glossary.terms.length > 0 && (
+          <ul className="max-h-48 overflow-y-auto divide-y text-sm">
+            {glossary.terms.map(term => (
+              <li key={`${term.sourceLanguage}:${term.targetLanguage}:${term.source}`} className="flex items-center gap-2 py-1">
+                <span className="w-40 shrink-0 text-gray-500">
+                  {languageName(term.sourceLanguage)} → {languageName(term.targetLanguage)}
+                </span>
+                <span className="flex-1 min-w-0 truncate">
+                  {term.source} → <span className="font-medium">{term.target}</span>
+                </span>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => onChange({ ...glossary, terms: glossary.terms.filter(other => !sameTerm(other, term)) })}
+                  aria-label={`Remove ${term.source}`}
+                >
+                  <X />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium">Do not translate</h3>
+        <div className="flex gap-2">
+          <Input
+            value={protectedTerm}
+            onChange={(e) => setProtectedTerm(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddProtectedTerm()}
+            placeholder="Product name, code identifier…"
+            aria-label="Protected term"
+          />
+          <Button variant="outline" onClick={handleAddProtectedTerm} disabled={!protectedTerm.trim()}>
+            <Plus />
+            Add
+          </Button>
+        </div>
+        {glossary.protectedTerms.length > 0 && (
+          <ul className="flex flex-wrap gap-2 text-sm">
+            {glossary.protectedTerms.map(term => (
+              <li key={term} className="flex items-center gap-1 rounded-full bg-gray-100 py-0.5 pl-3 pr-1">
+                {term}
+                <button
+                  className="rounded-full p-0.5 hover:bg-gray-200"
+                  onClick={() => onChange({ ...glossary, protectedTerms: glossary.protectedTerms.filter(other => other !== term) })}
+                  aria-label={`Remove ${term}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </Card>
+  );
+}
+
+type GlossaryHighlightedTextProps = {
+  text: string;
+  terms: string[];
+};
+
+// Glossary and protected terms marked in a translation
+export function GlossaryHighlightedText({ text, terms }: GlossaryHighlightedTextProps) {
+  return (
+    <>
+      {highlightTerms(text, terms).map((segment, index) => segment.highlighted
+        ? <mark key={index} className="rounded-sm bg-amber-100 px-0.5 text-inherit" title="Glossary term">{segment.text}</mark>
+        : segment.text)}
+    </>
+  );
+}
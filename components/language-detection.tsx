@@ -0,0 +1,109 @@
+'use client';
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import type { LanguageSpan } from "@/lib/detection";
+import { languageDirection, LANGUAGES } from "@/lib/languages";
+import type { DetectedLanguage, Message } from "@/lib/messages";
+
+type DetectedLanguageInfoProps = {
+  message: Message;
+  onOverride: (code: string) => void;
+};
+
+const formatConfidence = ({ confidence }: DetectedLanguage): string => `${Math.round(confidence * 100)}%`;
+
+// Detected language, the runners-up, and a picker for when the detector is wrong.
+// Only detection results of inputs (which carry candidates) can be corrected.
+export function DetectedLanguageInfo({ message, onOverride }: DetectedLanguageInfoProps) {
+  const { detectedLanguage, languageCandidates = [], languageOverridden } = message;
+  const otherCandidates = languageCandidates.filter(candidate => candidate.code !== detectedLanguage?.code);
+
+  return (
+    <div className="mt-2 space-y-1 text-sm text-gray-600">
+      <p>
+        {detectedLanguage
+          ? <>Language: {detectedLanguage.name} {languageOverridden ? '(set manually)' : `(${formatConfidence(detectedLanguage)} confidence)`}</>
+          : 'Language could not be detected confidently.'}
+      </p>
+      {otherCandidates.length > 0 && (
+        <p className="flex flex-wrap items-center gap-1 text-xs">
+          {detectedLanguage ? 'Other candidates:' : 'Candidates:'}
+          {otherCandidates.map(candidate => (
+            <button
+              key={candidate.code}
+              className="rounded border border-gray-300 px-1.5 py-0.5 hover:bg-white"
+              onClick={() => onOverride(candidate.code)}
+              title={`Use ${candidate.name}`}
+            >
+              {candidate.name} {formatConfidence(candidate)}
+            </button>
+          ))}
+        </p>
+      )}
+      {message.languageCandidates && (
+        <div className="flex items-center gap-2 text-xs">
+          <span>{detectedLanguage ? 'Not right?' : 'Choose the language:'}</span>
+          <Select value={detectedLanguage?.code ?? ''} onValueChange={onOverride}>
+            <SelectTrigger className="h-7 w-40 text-xs">
+              <SelectValue placeholder="Select language" />
+            </SelectTrigger>
+            <SelectContent>
+              {LANGUAGES.map(({ code, name }) => (
+                <SelectItem key={code} value={code}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </div>
+  );
+}
+
+const SPAN_COLORS = [
+  'bg-amber-200/70',
+  'bg-sky-200/70',
+  'bg-emerald-200/70',
+  'bg-rose-200/70',
+  'bg-violet-200/70',
+];
+
+// Message text with each language's passages highlighted in its own colour
+export function MixedLanguageText({ spans }: { spans: LanguageSpan[] }) {
+  const codes = [...new Set(spans.flatMap(span => span.language ? [span.language.code] : []))];
+  const colorOf = (code: string) => SPAN_COLORS[codes.indexOf(code) % SPAN_COLORS.length];
+  const names = new Map(spans.flatMap(span => span.language ? [[span.language.code, span.language.name]] : []));
+
+  return (
+    <div>
+      <p className="whitespace-pre-wrap" dir="auto">
+        {spans.map((span, index) => (
+          <span key={index}>
+            {span.language ? (
+              <mark
+                className={`rounded-sm text-inherit ${colorOf(span.language.code)}`}
+                dir={languageDirection(span.language.code)}
+                lang={span.language.code}
+                title={`${span.language.name} (${formatConfidence(span.language)} confidence)`}
+              >
+                {span.text}
+              </mark>
+            ) : span.text}
+            {span.separator}
+          </span>
+        ))}
+      </p>
+      <p className="mt-2 flex flex-wrap items-center gap-2 text-xs text-gray-600">
+        Mixed languages:
+        {codes.map(code => (
+          <span key={code} className={`rounded-sm px-1.5 py-0.5 ${colorOf(code)}`}>{names.get(code)}</span>
+        ))}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Check, ChevronDown } from "lucide-react"
+import {
+  getLocale,
+  languageName,
+  matchesLanguage,
+  TRANSLATION_LANGUAGES,
+  type Locale,
+} from "@/lib/languages";
+
+type LanguageMultiSelectProps = {
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  // Recently used codes, pinned above the full list
+  recent?: string[];
+  className?: string;
+};
+
+const MAX_NAMES_SHOWN = 2;
+
+const summarizeSelection = (selected: string[]): string => {
+  if (selected.length === 0) return 'Select languages';
+  const names = selected.slice(0, MAX_NAMES_SHOWN).map(languageName).join(', ');
+  return selected.length > MAX_NAMES_SHOWN ? `${names} +${selected.length - MAX_NAMES_SHOWN}` : names;
+};
+
+export function LanguageMultiSelect({ selected, onChange, recent = [], className }: LanguageMultiSelectProps) {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [query, setQuery] = useState<string>('');
+
+  // At least one target stays selected so Translate always has somewhere to go
+  const toggle = (code: string) => {
+    if (!selected.includes(code)) {
+      onChange([...selected, code]);
+    } else if (selected.length > 1) {
+      onChange(selected.filter(language => language !== code));
+    }
+  };
+
+  const recentLocales = recent.map(getLocale).filter(locale => matchesLanguage(locale, query));
+  const otherLocales = TRANSLATION_LANGUAGES
+    .filter(locale => !recent.includes(locale.code) && matchesLanguage(locale, query));
+
+  const renderOption = (locale: Locale) => {
+    const isSelected = selected.includes(locale.code);
+    return (
+      <li key={locale.code} role="option" aria-selected={isSelected}>
+        <button
+          className="flex w-full items-center justify-between gap-2 rounded-sm px-2 py-1.5 text-left hover:bg-gray-100"
+          onClick={() => toggle(locale.code)}
+        >
+          <span className="truncate">
+            {locale.name}
+            {locale.nativeName !== locale.name && (
+              <span className="ml-1 text-gray-500" dir={locale.dir} lang={locale.code}>{locale.nativeName}</span>
+            )}
+          </span>
+          {isSelected && <Check className="h-4 w-4 shrink-0" />}
+        </button>
+      </li>
+    );
+  };
+
+  return (
+    <div className={`relative ${className ?? ''}`}>
+      <Button
+        variant="outline"
+        className="w-full justify-between font-normal"
+        onClick={() => setIsOpen(prev => !prev)}
+        aria-expanded={isOpen}
+        aria-haspopup="listbox"
+      >
+        <span className="truncate">{summarizeSelection(selected)}</span>
+        <ChevronDown className="opacity-50" />
+      </Button>
+      {isOpen && (
+        <div className="absolute bottom-full right-0 z-10 mb-1 w-64 rounded-md border bg-white p-1 text-sm text-gray-900 shadow-md">
+          <Input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search languages"
+            className="mb-1 h-8"
+            aria-label="Search languages"
+          />
+          <ul role="listbox" aria-multiselectable="true" className="max-h-72 overflow-y-auto">
+            {recentLocales.length > 0 && (
+              <>
+                <li className="px-2 pt-1 text-xs font-medium text-gray-500">Recent</li>
+                {recentLocales.map(renderOption)}
+                <li className="px-2 pt-2 text-xs font-medium text-gray-500">All languages</li>
+              </>
+            )}
+            {otherLocales.map(renderOption)}
+            {recentLocales.length === 0 && otherLocales.length === 0 && (
+              <li className="px-2 py-1.5 text-gray-500">No matching languages</li>
+            )}
+          </ul>
+          <button
+            className="mt-1 w-full rounded-sm border-t px-2 py-1.5 text-left text-gray-600 hover:bg-gray-100"
+            onClick={() => {
+              setIsOpen(false);
+              setQuery('');
+            }}
+          >
+            Done
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
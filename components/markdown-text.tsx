@@ -0,0 +1,49 @@
+'use client';
+
+import { forwardRef } from 'react';
+import ReactMarkdown, { type Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+
+// Raw HTML in the input is skipped and react-markdown drops unsafe URLs
+// (javascript: and the like), so model output can be shown as-is
+const components: Components = {
+  a: ({ href, children }) => (
+    <a href={href} className="text-blue-600 underline" target="_blank" rel="noopener noreferrer">
+      {children}
+    </a>
+  ),
+  table: ({ children }) => (
+    <div className="mb-2 overflow-x-auto">
+      <table className="border-collapse text-sm">{children}</table>
+    </div>
+  ),
+};
+
+// Element styles live on the wrapper so the markdown components stay plain
+const MARKDOWN_STYLES = [
+  'break-words',
+  '[&_h1]:text-lg [&_h1]:font-semibold [&_h2]:text-base [&_h2]:font-semibold [&_h3]:font-semibold',
+  '[&_h1]:mt-3 [&_h2]:mt-3 [&_h3]:mt-2 [&_h1]:mb-1 [&_h2]:mb-1 [&_h3]:mb-1',
+  '[&_p]:mb-2 [&_p:last-child]:mb-0',
+  '[&_ul]:list-disc [&_ol]:list-decimal [&_ul]:pl-5 [&_ol]:pl-5 [&_ul]:mb-2 [&_ol]:mb-2 [&_li]:mt-1',
+  '[&_blockquote]:border-l-4 [&_blockquote]:border-gray-300 [&_blockquote]:pl-3 [&_blockquote]:mb-2',
+  '[&_code]:rounded [&_code]:bg-gray-200 [&_code]:px-1 [&_code]:font-mono [&_code]:text-sm',
+  '[&_pre]:mb-2 [&_pre]:overflow-x-auto [&_pre]:rounded [&_pre]:bg-gray-200 [&_pre]:p-2 [&_pre_code]:p-0',
+  '[&_th]:border [&_td]:border [&_th]:border-gray-300 [&_td]:border-gray-300',
+  '[&_th]:px-2 [&_td]:px-2 [&_th]:py-1 [&_td]:py-1 [&_th]:text-left',
+].join(' ');
+
+type MarkdownTextProps = {
+  markdown: string;
+  dir?: string;
+  lang?: string;
+};
+
+export const MarkdownText = forwardRef<HTMLDivElement, MarkdownTextProps>(({ markdown, dir, lang }, ref) => (
+  <div ref={ref} dir={dir} lang={lang} className={MARKDOWN_STYLES}>
+    <ReactMarkdown remarkPlugins={[remarkGfm]} components={components} skipHtml>
+      {markdown}
+    </ReactMarkdown>
+  </div>
+));
+MarkdownText.displayName = 'MarkdownText';
@@ -0,0 +1,96 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Button } from "@/components/ui/button"
+import { Check, Copy } from "lucide-react"
+import { GlossaryHighlightedText } from "@/components/glossary-manager"
+import { MixedLanguageText } from "@/components/language-detection"
+import { MarkdownText } from "@/components/markdown-text"
+import { textDirection } from "@/lib/languages";
+import { markdownToPlainText, TEXT_VIEWS, type TextView } from "@/lib/markdown";
+import { messageLanguage, summaryOptionsOf, type Message } from "@/lib/messages";
+
+type MessageContentProps = {
+  message: Message;
+  onError?: (message: string) => void;
+};
+
+const COPIED_FEEDBACK_MS = 1500;
+
+// Message text plus, for finished outputs, a copy button. Markdown summaries
+// can be shown rendered, as raw markdown or as plain text; copying follows
+// whichever view is selected.
+export function MessageContent({ message, onError }: MessageContentProps) {
+  const [view, setView] = useState<TextView>('rendered');
+  const [copied, setCopied] = useState<boolean>(false);
+  const renderedRef = useRef<HTMLDivElement>(null);
+
+  const isMarkdown = summaryOptionsOf(message)?.format === 'markdown';
+  const language = messageLanguage(message);
+  const dir = textDirection(language);
+
+  const handleCopy = async () => {
+    try {
+      if (isMarkdown && view === 'rendered' && renderedRef.current && typeof ClipboardItem !== 'undefined') {
+        // Rich text for editors that accept it, plain text for everything else
+        await navigator.clipboard.write([
+          new ClipboardItem({
+            'text/html': new Blob([renderedRef.current.innerHTML], { type: 'text/html' }),
+            'text/plain': new Blob([markdownToPlainText(message.text)], { type: 'text/plain' }),
+          }),
+        ]);
+      } else {
+        const useMarkdownSource = !isMarkdown || view === 'markdown';
+        await navigator.clipboard.writeText(useMarkdownSource ? message.text : markdownToPlainText(message.text));
+      }
+      setCopied(true);
+      setTimeout(() => setCopied(false), COPIED_FEEDBACK_MS);
+    } catch {
+      onError?.('Could not copy to the clipboard.');
+    }
+  };
+
+  const renderText = () => {
+    if (message.languageSpans) return <MixedLanguageText spans={message.languageSpans} />;
+    // Partial markdown renders fine, but the raw view avoids reflowing while streaming
+    if (isMarkdown && view === 'rendered' && !message.isStreaming) {
+      return <MarkdownText ref={renderedRef} markdown={message.text} dir={dir} lang={language} />;
+    }
+    return (
+      <p className="whitespace-pre-wrap" dir={dir} lang={language}>
+        {isMarkdown && view === 'plain'
+          ? markdownToPlainText(message.text)
+          : <GlossaryHighlightedText text={message.text} terms={message.glossaryTerms ?? []} />}
+      </p>
+    );
+  };
+
+  return (
+    <>
+      {renderText()}
+      {message.type === 'output' && !message.isStreaming && message.id !== 'welcome' && (
+        <div className="mt-2 flex flex-wrap items-center gap-1">
+          {isMarkdown && (
+            <div role="radiogroup" aria-label="Show as" className="flex rounded-md border bg-white p-0.5 text-xs">
+              {TEXT_VIEWS.map(({ value, label }) => (
+                <button
+                  key={value}
+                  role="radio"
+                  aria-checked={view === value}
+                  className={`rounded px-2 py-0.5 ${view === value ? 'bg-gray-200 font-medium' : 'text-gray-600 hover:bg-gray-100'}`}
+                  onClick={() => setView(value)}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+          <Button size="sm" variant="ghost" className="h-7" onClick={handleCopy}>
+            {copied ? <Check /> : <Copy />}
+            {copied ? 'Copied' : 'Copy'}
+          </Button>
+        </div>
+      )}
+    </>
+  );
+}
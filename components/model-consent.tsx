@@ -0,0 +1,103 @@
+'use client';
+
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Download } from "lucide-react"
+import { describeModel } from "@/components/models-panel"
+import type { AIModel } from "@/lib/ai";
+import {
+  consentFor,
+  downloadSize,
+  formatBytes,
+  type ConsentChoice,
+  type ModelConsent,
+  type ModelConsents,
+} from "@/lib/ai/model-consent";
+import { LANGUAGE_DETECTOR_MODEL, modelKey, SUMMARIZER_MODEL, type ModelState } from "@/lib/ai/model-manager";
+
+type DownloadConsentCardProps = {
+  model: AIModel;
+  state?: ModelState;
+  onChoose: (choice: ConsentChoice) => void;
+};
+
+// Asks before a model download without blocking the rest of the page
+export function DownloadConsentCard({ model, state, onChoose }: DownloadConsentCardProps) {
+  const size = downloadSize(model, state?.progress);
+
+  return (
+    <Card className="p-4 space-y-3 bg-blue-50 border-blue-200" role="region" aria-label={`${describeModel(model)} download`}>
+      <h2 className="text-lg font-semibold">Download the {describeModel(model).toLowerCase()} model?</h2>
+      <p className="text-sm text-gray-700">
+        {size
+          ? `This is a one-time download of ${size.estimated ? 'about ' : ''}${formatBytes(size.bytes)}.`
+          : 'This is a one-time download.'}
+        {' '}The model stays on this device, so it keeps working offline.
+      </p>
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" onClick={() => onChoose('now')}>
+          <Download />
+          Download now
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => onChoose('later')}>
+          Later
+        </Button>
+        <Button size="sm" variant="ghost" onClick={() => onChoose('never')}>
+          Never
+        </Button>
+      </div>
+      <p className="text-xs text-gray-500">You can change this at any time under Settings.</p>
+    </Card>
+  );
+}
+
+const CONSENT_MODELS = [SUMMARIZER_MODEL, LANGUAGE_DETECTOR_MODEL];
+
+const CONSENT_LABELS: Record<ModelConsent, string> = {
+  ask: 'Ask first',
+  allowed: 'Download without asking',
+  declined: 'Never download',
+};
+
+type ModelConsentSettingsProps = {
+  consents: ModelConsents;
+  onChange: (model: AIModel, consent: ModelConsent) => void;
+};
+
+export function ModelConsentSettings({ consents, onChange }: ModelConsentSettingsProps) {
+  return (
+    <Card className="p-4 space-y-3">
+      <h2 className="text-lg font-semibold">Model downloads</h2>
+      <ul className="divide-y">
+        {CONSENT_MODELS.map(model => (
+          <li key={modelKey(model)} className="flex items-center justify-between gap-2 py-2">
+            <span className="text-sm">{describeModel(model)}</span>
+            <Select
+              value={consentFor(consents, model)}
+              onValueChange={(value) => onChange(model, value as ModelConsent)}
+            >
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(CONSENT_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </li>
+        ))}
+      </ul>
+      <p className="text-sm text-gray-500">
+        Translation language packs are downloaded when you first translate into a language.
+      </p>
+    </Card>
+  );
+}
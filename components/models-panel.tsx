@@ -0,0 +1,207 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Download, Loader2, RefreshCw, RotateCcw } from "lucide-react"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import type { AIModel, Availability, LanguagePair } from "@/lib/ai";
+import {
+  LANGUAGE_DETECTOR_MODEL,
+  modelKey,
+  SUMMARIZER_MODEL,
+  translatorModel,
+  type ModelState,
+} from "@/lib/ai/model-manager";
+import { languageName, TRANSLATION_LANGUAGES } from "@/lib/languages";
+
+type ModelsPanelProps = {
+  states: ModelState[];
+  onCheck: (model: AIModel) => void;
+  onDownload: (model: AIModel) => void;
+};
+
+const AVAILABILITY_LABELS: Record<Availability, { label: string; className: string }> = {
+  'readily': { label: 'Ready', className: 'bg-green-100 text-green-700' },
+  'after-download': { label: 'Download needed', className: 'bg-yellow-100 text-yellow-800' },
+  'no': { label: 'Not available', className: 'bg-gray-100 text-gray-600' },
+};
+
+export const describeModel = (model: AIModel): string => {
+  if (model.capability === 'translator') {
+    return `Translator: ${languageName(model.pair.sourceLanguage)} → ${languageName(model.pair.targetLanguage)}`;
+  }
+  return model.capability === 'summarizer' ? 'Summarizer' : 'Language detector';
+};
+
+const CAPABILITY_MODELS = [SUMMARIZER_MODEL, LANGUAGE_DETECTOR_MODEL];
+
+const pairsFrom = (sourceLanguage: string): LanguagePair[] =>
+  TRANSLATION_LANGUAGES
+    .filter(({ code }) => code !== sourceLanguage)
+    .map(({ code }) => ({ sourceLanguage, targetLanguage: code }));
+
+type ModelRowProps = {
+  label: string;
+  state?: ModelState;
+  onDownload: () => void;
+};
+
+function ModelRow({ label, state, onDownload }: ModelRowProps) {
+  const availability = state?.availability && AVAILABILITY_LABELS[state.availability];
+  const progress = state?.progress;
+
+  return (
+    <li className="py-2 space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm">{label}</span>
+        <div className="flex items-center gap-2">
+          {(!state || state.status === 'checking') && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+          {availability && state?.status !== 'downloading' && (
+            <span className={`rounded px-2 py-0.5 text-xs ${availability.className}`}>{availability.label}</span>
+          )}
+          {state?.status === 'downloading' && (
+            <span className="text-xs text-blue-700">
+              {progress ? `${Math.round((progress.loaded / progress.total) * 100)}%` : 'Starting…'}
+            </span>
+          )}
+          {state?.status === 'idle' && state.availability === 'after-download' && (
+            <Button size="sm" variant="outline" onClick={onDownload}>
+              <Download />
+              Download
+            </Button>
+          )}
+          {state?.status === 'failed' && (
+            <Button size="sm" variant="outline" onClick={onDownload}>
+              <RotateCcw />
+              Retry
+            </Button>
+          )}
+        </div>
+      </div>
+      {state?.status === 'downloading' && (
+        <div className="w-full bg-gray-200 rounded-full h-1.5">
+          <div
+            className="bg-blue-600 h-1.5 rounded-full transition-all duration-300"
+            style={{ width: `${progress ? (progress.loaded / progress.total) * 100 : 0}%` }}
+          ></div>
+        </div>
+      )}
+      {state?.status === 'failed' && state.error && (
+        <p className="text-xs text-red-600">{state.error}</p>
+      )}
+    </li>
+  );
+}
+
+export function ModelsPanel({ states, onCheck, onDownload }: ModelsPanelProps) {
+  const [sourceLanguage, setSourceLanguage] = useState<string>('en');
+  const stateByKey = new Map(states.map(state => [modelKey(state.model), state]));
+
+  const pairs = pairsFrom(sourceLanguage);
+  const models = [...CAPABILITY_MODELS, ...pairs.map(translatorModel)];
+
+  // Check each model the first time it is shown
+  useEffect(() => {
+    const checked = new Set(states.map(state => modelKey(state.model)));
+    [...CAPABILITY_MODELS, ...pairsFrom(sourceLanguage).map(translatorModel)]
+      .filter(model => !checked.has(modelKey(model)))
+      .forEach(onCheck);
+  }, [sourceLanguage, states, onCheck]);
+
+  const refresh = () => {
+    models
+      .filter(model => stateByKey.get(modelKey(model))?.status !== 'downloading')
+      .forEach(onCheck);
+  };
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold">Models</h2>
+        <Button size="sm" variant="ghost" onClick={refresh}>
+          <RefreshCw />
+          Check again
+        </Button>
+      </div>
+      <p className="text-sm text-gray-500">
+        Download models ahead of time so translations and summaries start immediately, even offline.
+      </p>
+
+      <ul className="divide-y">
+        {CAPABILITY_MODELS.map(model => (
+          <ModelRow
+            key={modelKey(model)}
+            label={describeModel(model)}
+            state={stateByKey.get(modelKey(model))}
+            onDownload={() => onDownload(model)}
+          />
+        ))}
+      </ul>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <h3 className="text-sm font-semibold">Translation pairs</h3>
+          <Select value={sourceLanguage} onValueChange={setSourceLanguage}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TRANSLATION_LANGUAGES.map(({ code, name }) => (
+                <SelectItem key={code} value={code}>From {name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <ul className="divide-y">
+          {pairs.map(pair => {
+            const model = translatorModel(pair);
+            return (
+              <ModelRow
+                key={modelKey(model)}
+                label={`To ${languageName(pair.targetLanguage)}`}
+                state={stateByKey.get(modelKey(model))}
+                onDownload={() => onDownload(model)}
+              />
+            );
+          })}
+        </ul>
+      </div>
+    </Card>
+  );
+}
+
+// Progress for every model currently downloading, whichever operation started it
+export function ModelDownloads({ states }: { states: ModelState[] }) {
+  const downloads = states.filter(state => state.status === 'downloading');
+  if (downloads.length === 0) return null;
+
+  return (
+    <Card className="p-6 bg-blue-50 border-blue-200 space-y-4">
+      <h2 className="text-lg font-semibold">
+        Downloading {downloads.length === 1 ? 'Model' : `${downloads.length} Models`}...
+      </h2>
+      {downloads.map(({ model, progress }) => {
+        const percent = progress ? (progress.loaded / progress.total) * 100 : 0;
+        return (
+          <div key={modelKey(model)}>
+            <p className="text-sm font-medium mb-1">{describeModel(model)}</p>
+            <div className="w-full bg-gray-200 rounded-full h-2.5">
+              <div
+                className="bg-blue-600 h-2.5 rounded-full transition-all duration-300"
+                style={{ width: `${percent}%` }}
+              ></div>
+            </div>
+            <p className="text-sm text-gray-600 mt-1">{Math.round(percent)}% complete</p>
+          </div>
+        );
+      })}
+    </Card>
+  );
+}
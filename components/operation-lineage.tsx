@@ -0,0 +1,128 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from "@/components/ui/button"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { ChevronRight, RotateCcw } from "lucide-react"
+import { SummarizerSettings } from "@/components/summarizer-settings"
+import { describeSummarizerOptions } from "@/lib/ai/summarizer-options";
+import { languageName, TRANSLATION_LANGUAGES } from "@/lib/languages";
+import {
+  operationChildren,
+  operationLineage,
+  type Message,
+  type MessageOperation,
+} from "@/lib/messages";
+
+type OperationLineageProps = {
+  message: Message;
+  messages: Message[];
+  disabled?: boolean;
+  onSelect: (messageId: string) => void;
+  // Receives the operation to run again, with the options the user picked
+  onRerun: (operation: MessageOperation) => void;
+};
+
+const describeStep = (message: Message): string => {
+  const { operation } = message;
+  if (!operation) return message.fileName ?? (message.type === 'input' ? 'Input' : 'Output');
+  if (operation.type === 'detect') {
+    return operation.language ? `Detected ${languageName(operation.language)}` : 'Language detection';
+  }
+  if (operation.type === 'translate') return `Translated to ${languageName(operation.options.targetLanguage)}`;
+  return `Summary (${describeSummarizerOptions(operation.options)})`;
+};
+
+const formatTime = (time: number): string =>
+  new Date(time).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' });
+
+// Where a derived message came from, which run of its operation it is, and a
+// form to run that step again with other options. Earlier results are kept.
+export function OperationLineage({ message, messages, disabled, onSelect, onRerun }: OperationLineageProps) {
+  const [editing, setEditing] = useState<MessageOperation | null>(null);
+  const { operation } = message;
+  if (!operation || operation.type === 'detect') return null;
+
+  const lineage = operationLineage(messages, message);
+  const runs = operationChildren(messages, operation.sourceMessageId)
+    .filter(other => other.operation?.type === operation.type);
+  const run = runs.indexOf(message) + 1;
+
+  return (
+    <div className="mt-2 space-y-2 text-xs text-gray-500">
+      <nav aria-label="Operation history" className="flex flex-wrap items-center gap-1">
+        {lineage.map((step, index) => (
+          <span key={step.id} className="flex items-center gap-1">
+            {index > 0 && <ChevronRight className="h-3 w-3" />}
+            {step === message ? (
+              <span className="font-medium text-gray-700">{describeStep(step)}</span>
+            ) : (
+              <button className="hover:underline" onClick={() => onSelect(step.id)}>{describeStep(step)}</button>
+            )}
+          </span>
+        ))}
+      </nav>
+      <div className="flex flex-wrap items-center gap-2">
+        <span>{formatTime(operation.createdAt)}</span>
+        {runs.length > 1 && <span>Run {run} of {runs.length}</span>}
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-7"
+          disabled={disabled}
+          onClick={() => setEditing(prev => prev ? null : operation)}
+          aria-expanded={!!editing}
+        >
+          <RotateCcw />
+          Re-run
+        </Button>
+      </div>
+      {editing && (
+        <div className="space-y-2 rounded border border-gray-200 bg-white p-2 text-gray-900">
+          {editing.type === 'translate' && (
+            <Select
+              value={editing.options.targetLanguage}
+              onValueChange={(targetLanguage) => setEditing({ ...editing, options: { targetLanguage } })}
+            >
+              <SelectTrigger aria-label="Target language" className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TRANSLATION_LANGUAGES.map(({ code, name }) => (
+                  <SelectItem key={code} value={code}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {editing.type === 'summarize' && (
+            <SummarizerSettings
+              options={editing.options}
+              onChange={(options) => setEditing({ ...editing, options })}
+            />
+          )}
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              disabled={disabled}
+              onClick={() => {
+                onRerun(editing);
+                setEditing(null);
+              }}
+            >
+              Run
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+'use client';
+
+import { Card } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+
+type ProcessingSettingsProps = {
+  chunkTokenBudget: number;
+  preserveFormatting: boolean;
+  onChunkTokenBudgetChange: (chunkTokenBudget: number) => void;
+  onPreserveFormattingChange: (preserveFormatting: boolean) => void;
+};
+
+export function ProcessingSettings({
+  chunkTokenBudget,
+  preserveFormatting,
+  onChunkTokenBudgetChange,
+  onPreserveFormattingChange,
+}: ProcessingSettingsProps) {
+  return (
+    <Card className="p-4 space-y-3">
+      <h2 className="text-lg font-semibold">Long documents</h2>
+      <label className="block space-y-1 text-sm">
+        <span className="font-medium">Chunk size (tokens)</span>
+        <Input
+          type="number"
+          min={100}
+          step={100}
+          value={chunkTokenBudget}
+          onChange={(e) => {
+            const value = Number(e.target.value);
+            if (Number.isFinite(value) && value >= 100) onChunkTokenBudgetChange(value);
+          }}
+          className="sm:w-40"
+        />
+        <span className="block text-gray-500">
+          Longer texts are split on paragraphs and sentences into chunks of about this size.
+          Lower it if the on-device model reports that the input is too large.
+        </span>
+      </label>
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={preserveFormatting}
+          onChange={(e) => onPreserveFormattingChange(e.target.checked)}
+        />
+        Keep Markdown and HTML formatting: translate only the text, leaving code, links and tags as they are
+      </label>
+    </Card>
+  );
+}
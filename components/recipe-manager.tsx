@@ -0,0 +1,127 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Plus, X } from "lucide-react"
+import { TRANSLATION_LANGUAGES } from "@/lib/languages";
+import {
+  BUILT_IN_RECIPES,
+  createRecipe,
+  describeRecipe,
+  describeStep,
+  SELECTED_LANGUAGES,
+  SOURCE_LANGUAGE,
+  type Recipe,
+  type RecipeStep,
+} from "@/lib/recipes";
+
+type RecipeManagerProps = {
+  // The user's own recipes; built-in ones are listed but cannot be removed
+  recipes: Recipe[];
+  onChange: (recipes: Recipe[]) => void;
+};
+
+export function RecipeManager({ recipes, onChange }: RecipeManagerProps) {
+  const [name, setName] = useState<string>('');
+  const [steps, setSteps] = useState<RecipeStep[]>([]);
+  const [targetLanguage, setTargetLanguage] = useState<string>(SELECTED_LANGUAGES);
+
+  const handleSave = () => {
+    if (!name.trim() || steps.length === 0) return;
+    onChange([...recipes, createRecipe(name.trim(), steps)]);
+    setName('');
+    setSteps([]);
+  };
+
+  return (
+    <Card className="p-4 space-y-4">
+      <h2 className="text-lg font-semibold">Recipes</h2>
+      <p className="text-sm text-gray-500">
+        A recipe chains translations and summaries into one click. Each step works on the result of the
+        one before, and every result is kept in the conversation. Summaries are made in English.
+      </p>
+
+      <ul className="divide-y text-sm">
+        {[...BUILT_IN_RECIPES, ...recipes].map(recipe => (
+          <li key={recipe.id} className="flex items-center gap-2 py-1">
+            <span className="flex-1 min-w-0">
+              <span className="font-medium">{recipe.name}</span>
+              <span className="block truncate text-gray-500">{describeRecipe(recipe)}</span>
+            </span>
+            {recipe.builtIn ? (
+              <span className="text-xs text-gray-400">Built-in</span>
+            ) : (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => onChange(recipes.filter(other => other.id !== recipe.id))}
+                aria-label={`Remove ${recipe.name}`}
+              >
+                <X />
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium">New recipe</h3>
+        <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name" aria-label="Recipe name" />
+        {steps.length > 0 && (
+          <ol className="flex flex-wrap gap-2 text-sm">
+            {steps.map((step, index) => (
+              <li key={index} className="flex items-center gap-1 rounded-full bg-gray-100 py-0.5 pl-3 pr-1">
+                {index + 1}. {describeStep(step)}
+                <button
+                  className="rounded-full p-0.5 hover:bg-gray-200"
+                  onClick={() => setSteps(prev => prev.filter((_, other) => other !== index))}
+                  aria-label={`Remove step ${index + 1}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </li>
+            ))}
+          </ol>
+        )}
+        <div className="flex flex-wrap gap-2">
+          <Select value={targetLanguage} onValueChange={setTargetLanguage}>
+            <SelectTrigger aria-label="Translate to" className="w-56">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={SELECTED_LANGUAGES}>Selected languages</SelectItem>
+              <SelectItem value={SOURCE_LANGUAGE}>Original language</SelectItem>
+              {TRANSLATION_LANGUAGES.map(({ code, name }) => (
+                <SelectItem key={code} value={code}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={() => setSteps(prev => [...prev, { type: 'translate', targetLanguage }])}>
+            <Plus />
+            Translate
+          </Button>
+          <Button variant="outline" onClick={() => setSteps(prev => [...prev, { type: 'summarize' }])}>
+            <Plus />
+            Summarize
+          </Button>
+          <Button onClick={handleSave} disabled={!name.trim() || steps.length === 0}>
+            Save recipe
+          </Button>
+        </div>
+        <p className="text-xs text-gray-500">
+          Summaries use the current summary settings. A recipe is offered for a message only when every
+          summary in it gets English text, so start with a translation to English for other languages.
+        </p>
+      </div>
+    </Card>
+  );
+}
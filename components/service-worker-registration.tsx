@@ -0,0 +1,30 @@
+'use client';
+
+import { useEffect } from 'react';
+
+// Registers public/sw.js in production builds. Development is left alone so a
+// cached shell never hides code changes.
+export function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+
+    const register = async () => {
+      try {
+        const registration = await navigator.serviceWorker.register('/sw.js');
+        await navigator.serviceWorker.ready;
+        // Assets loaded before the worker was installed went past it, so cache them now
+        const urls = performance
+          .getEntriesByType('resource')
+          .map(entry => entry.name)
+          .filter(url => new URL(url).pathname.startsWith('/_next/static/'));
+        registration.active?.postMessage({ type: 'CACHE_URLS', urls });
+      } catch (error) {
+        console.warn('Service worker registration failed:', error);
+      }
+    };
+
+    register();
+  }, []);
+
+  return null;
+}
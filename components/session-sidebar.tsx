@@ -0,0 +1,127 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Check, Pencil, Plus, Trash2, X } from "lucide-react"
+import { sessionMatches, type Session } from "@/lib/history";
+
+type SessionSidebarProps = {
+  sessions: Session[];
+  activeSessionId: string | null;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  // While output is streaming into the active conversation it cannot be left or deleted
+  locked?: boolean;
+};
+
+export function SessionSidebar({
+  sessions,
+  activeSessionId,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+  locked = false,
+}: SessionSidebarProps) {
+  const [query, setQuery] = useState<string>('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState<string>('');
+
+  const visibleSessions = sessions.filter(session => sessionMatches(session, query));
+
+  const startRename = (session: Session) => {
+    setEditingId(session.id);
+    setDraftTitle(session.title);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftTitle.trim()) {
+      onRename(editingId, draftTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (session: Session) => {
+    if (window.confirm(`Delete "${session.title}"? This cannot be undone.`)) {
+      onDelete(session.id);
+    }
+  };
+
+  return (
+    <Card className="p-4 flex flex-col gap-3 md:w-64 md:shrink-0">
+      <Button onClick={onCreate} className="w-full" disabled={locked}>
+        <Plus />
+        New conversation
+      </Button>
+      {locked && (
+        <p className="text-xs text-gray-500">Stop or wait for the current output to switch conversations.</p>
+      )}
+      <Input
+        placeholder="Search conversations..."
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+      />
+      <ul className="flex-1 overflow-y-auto space-y-1 max-h-60 md:max-h-none">
+        {visibleSessions.map((session) => (
+          <li key={session.id}>
+            {editingId === session.id ? (
+              <div className="flex items-center gap-1">
+                <Input
+                  autoFocus
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="h-8"
+                />
+                <Button size="icon" variant="ghost" className="h-8 w-8" onClick={commitRename} aria-label="Save name">
+                  <Check />
+                </Button>
+                <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => setEditingId(null)} aria-label="Cancel rename">
+                  <X />
+                </Button>
+              </div>
+            ) : (
+              <div className={`group flex items-center gap-1 rounded-md ${
+                session.id === activeSessionId ? 'bg-gray-100' : 'hover:bg-gray-50'
+              }`}>
+                <button
+                  className="flex-1 min-w-0 text-left px-2 py-1.5 text-sm disabled:cursor-not-allowed disabled:opacity-50"
+                  onClick={() => onSelect(session.id)}
+                  disabled={locked && session.id !== activeSessionId}
+                >
+                  <span className="block truncate">{session.title}</span>
+                  <span className="block text-xs text-gray-500">
+                    {new Date(session.updatedAt).toLocaleString()}
+                  </span>
+                </button>
+                <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => startRename(session)} aria-label="Rename conversation">
+                  <Pencil />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8"
+                  onClick={() => handleDelete(session)}
+                  disabled={locked && session.id === activeSessionId}
+                  aria-label="Delete conversation"
+                >
+                  <Trash2 />
+                </Button>
+              </div>
+            )}
+          </li>
+        ))}
+        {visibleSessions.length === 0 && (
+          <li className="text-sm text-gray-500 px-2">No conversations found.</li>
+        )}
+      </ul>
+    </Card>
+  );
+}
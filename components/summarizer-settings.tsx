@@ -0,0 +1,88 @@
+'use client';
+
+import { Card } from "@/components/ui/card"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  SUMMARIZER_FORMATS,
+  SUMMARIZER_LENGTHS,
+  SUMMARIZER_TYPES,
+} from "@/lib/ai/summarizer-options";
+import type { SummarizerOptions } from "@/lib/ai";
+
+type SummarizerSettingsProps = {
+  options: SummarizerOptions;
+  onChange: (options: SummarizerOptions) => void;
+};
+
+export function SummarizerSettings({ options, onChange }: SummarizerSettingsProps) {
+  return (
+    <Card className="p-4 space-y-3">
+      <h2 className="text-lg font-semibold">Summary settings</h2>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <label className="space-y-1 text-sm">
+          <span className="font-medium">Type</span>
+          <Select
+            value={options.type}
+            onValueChange={(type) => onChange({ ...options, type: type as SummarizerOptions['type'] })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SUMMARIZER_TYPES.map(({ value, label }) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </label>
+        <label className="space-y-1 text-sm">
+          <span className="font-medium">Length</span>
+          <Select
+            value={options.length}
+            onValueChange={(length) => onChange({ ...options, length: length as SummarizerOptions['length'] })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SUMMARIZER_LENGTHS.map(({ value, label }) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </label>
+        <label className="space-y-1 text-sm">
+          <span className="font-medium">Format</span>
+          <Select
+            value={options.format}
+            onValueChange={(format) => onChange({ ...options, format: format as SummarizerOptions['format'] })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SUMMARIZER_FORMATS.map(({ value, label }) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </label>
+      </div>
+      <label className="block space-y-1 text-sm">
+        <span className="font-medium">Shared context</span>
+        <Textarea
+          value={options.sharedContext ?? ''}
+          onChange={(e) => onChange({ ...options, sharedContext: e.target.value })}
+          placeholder="Background that applies to every text you summarize, e.g. the audience or domain"
+        />
+      </label>
+    </Card>
+  );
+}
@@ -0,0 +1,52 @@
+'use client';
+
+import { Card } from "@/components/ui/card"
+import { Loader2 } from "lucide-react"
+import { GlossaryHighlightedText } from "@/components/glossary-manager"
+import { languageName, textDirection } from "@/lib/languages";
+import { translationTargetLanguage, type Message } from "@/lib/messages";
+
+type TranslationComparisonProps = {
+  source: Message;
+  translations: Message[];
+};
+
+// Source text and each of its translations side by side, one column per language
+export function TranslationComparison({ source, translations }: TranslationComparisonProps) {
+  const columns = [
+    {
+      key: source.id,
+      heading: `Source${source.detectedLanguage ? ` (${source.detectedLanguage.name})` : ''}`,
+      language: source.detectedLanguage?.code,
+      message: source,
+    },
+    ...translations.map(message => ({
+      key: message.id,
+      heading: languageName(translationTargetLanguage(message) ?? ''),
+      language: translationTargetLanguage(message),
+      message,
+    })),
+  ];
+
+  return (
+    <Card className="p-4 overflow-x-auto">
+      <div className="grid gap-4" style={{ gridTemplateColumns: `repeat(${columns.length}, minmax(14rem, 1fr))` }}>
+        {columns.map(({ key, heading, language, message }) => (
+          <div key={key} className="min-w-0">
+            <h3 className="flex items-center gap-2 text-sm font-semibold mb-2">
+              {heading}
+              {message.isStreaming && <Loader2 className="h-3 w-3 animate-spin text-gray-500" />}
+            </h3>
+            <p
+              className="whitespace-pre-wrap text-sm"
+              dir={textDirection(language)}
+              lang={language}
+            >
+              <GlossaryHighlightedText text={message.text} terms={message.glossaryTerms ?? []} />
+            </p>
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+}
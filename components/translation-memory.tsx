@@ -0,0 +1,168 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Download, Trash2, Upload } from "lucide-react"
+import { downloadFile } from "@/lib/export";
+import type { MemorySuggestion } from "@/lib/messages";
+import {
+  clearTranslationMemory,
+  countTranslationUnits,
+  importTranslationUnits,
+  listTranslationUnits,
+  translationMemoryFromTMX,
+  translationMemoryToTMX,
+} from "@/lib/translation-memory";
+
+type TranslationMemorySettingsProps = {
+  enabled: boolean;
+  threshold: number;
+  onEnabledChange: (enabled: boolean) => void;
+  onThresholdChange: (threshold: number) => void;
+  onError: (message: string) => void;
+};
+
+export function TranslationMemorySettings({
+  enabled,
+  threshold,
+  onEnabledChange,
+  onThresholdChange,
+  onError,
+}: TranslationMemorySettingsProps) {
+  const [count, setCount] = useState<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refreshCount = () => {
+    countTranslationUnits().then(setCount).catch(() => setCount(null));
+  };
+
+  useEffect(refreshCount, []);
+
+  const handleImport = async (file: File) => {
+    try {
+      const units = translationMemoryFromTMX(await file.text());
+      await importTranslationUnits(units);
+      refreshCount();
+    } catch (err) {
+      onError(err instanceof Error ? err.message : `Failed to import ${file.name}.`);
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      downloadFile({
+        fileName: `translation-memory-${new Date().toISOString().slice(0, 10)}.tmx`,
+        content: translationMemoryToTMX(await listTranslationUnits()),
+        mimeType: 'application/x-tmx+xml',
+      });
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Export failed.');
+    }
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('Delete every stored translation? This cannot be undone.')) return;
+    try {
+      await clearTranslationMemory();
+      refreshCount();
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to clear the translation memory.');
+    }
+  };
+
+  return (
+    <Card className="p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold">Translation memory</h2>
+        <div className="flex flex-wrap gap-2">
+          <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()}>
+            <Upload />
+            Import TMX
+          </Button>
+          <Button size="sm" variant="outline" onClick={handleExport} disabled={!count}>
+            <Download />
+            Export TMX
+          </Button>
+          <Button size="sm" variant="outline" onClick={handleClear} disabled={!count}>
+            <Trash2 />
+            Clear
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".tmx,.xml"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+      <label className="flex items-center gap-2 text-sm">
+        <input type="checkbox" checked={enabled} onChange={(e) => onEnabledChange(e.target.checked)} />
+        Reuse stored translations and remember new ones
+      </label>
+      <label className="block space-y-1 text-sm">
+        <span className="font-medium">Fuzzy match threshold (%)</span>
+        <Input
+          type="number"
+          min={50}
+          max={99}
+          step={5}
+          value={Math.round(threshold * 100)}
+          onChange={(e) => {
+            const value = Number(e.target.value);
+            if (Number.isFinite(value) && value >= 50 && value <= 99) onThresholdChange(value / 100);
+          }}
+          className="sm:w-40"
+          disabled={!enabled}
+        />
+        <span className="block text-gray-500">
+          Sentences that match a stored one exactly are not sent to the model. Close matches above this
+          similarity are offered as alternatives.
+        </span>
+      </label>
+      {count !== null && (
+        <p className="text-sm text-gray-500">{count} {count === 1 ? 'segment' : 'segments'} stored in this browser.</p>
+      )}
+    </Card>
+  );
+}
+
+type MemorySuggestionsProps = {
+  memoryMatches?: number;
+  suggestions: MemorySuggestion[];
+  onApply: (suggestion: MemorySuggestion) => void;
+};
+
+// Shown under a translation: how much came from memory, and close matches to swap in
+export function MemorySuggestions({ memoryMatches, suggestions, onApply }: MemorySuggestionsProps) {
+  if (!memoryMatches && suggestions.length === 0) return null;
+
+  return (
+    <div className="mt-2 space-y-2 text-xs text-gray-600">
+      {!!memoryMatches && (
+        <p>{memoryMatches} {memoryMatches === 1 ? 'sentence' : 'sentences'} reused from translation memory</p>
+      )}
+      {suggestions.map(suggestion => (
+        <div key={suggestion.source} className="rounded border border-gray-200 bg-white p-2 space-y-1">
+          <p>
+            <span className="font-medium">{Math.round(suggestion.similarity * 100)}% match</span> for
+            &ldquo;{suggestion.source}&rdquo;
+          </p>
+          <p className="text-gray-500">Stored: &ldquo;{suggestion.matchedSource}&rdquo;</p>
+          <div className="flex items-start justify-between gap-2">
+            <p className="text-gray-900">{suggestion.suggestion}</p>
+            <Button size="sm" variant="outline" className="h-7 shrink-0" onClick={() => onApply(suggestion)}>
+              Use
+            </Button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
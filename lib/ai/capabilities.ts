@@ -0,0 +1,217 @@
+import Bowser from "bowser";
+import { errorCodeFor, type ErrorCode } from '@/lib/errors';
+import { retryOperation } from '@/lib/retry';
+import type { CompatibilityResult, LanguagePair, TextAIProvider } from './types';
+
+// What capability detection reads from the browser. Passed in rather than
+// read from `window` so every branch can be exercised with a fake environment.
+export type BrowserEnvironment = {
+  userAgent: string;
+  isBrave: () => Promise<boolean>;
+};
+
+export type BrowserInfo = {
+  name: string;
+  isMobile: boolean;
+  version?: string;
+  os?: string;
+  platform?: string;
+};
+
+// Add type definition for Brave browser's navigator
+interface BraveNavigator extends Navigator {
+  brave?: {
+    isBrave?: () => Promise<boolean>;
+  };
+}
+
+export const getBrowserEnvironment = (): BrowserEnvironment => ({
+  userAgent: typeof navigator === 'undefined' ? '' : navigator.userAgent,
+  isBrave: async () => {
+    try {
+      const braveNavigator = navigator as BraveNavigator;
+      return !!(braveNavigator.brave && await braveNavigator.brave.isBrave?.());
+    } catch {
+      return false;
+    }
+  },
+});
+
+export const getBrowserInfo = (userAgent: string): BrowserInfo => {
+  if (!userAgent) return { name: 'unknown', isMobile: false };
+
+  const browser = Bowser.getParser(userAgent);
+  const platformType = browser.getPlatformType();
+
+  return {
+    name: browser.getBrowserName().toLowerCase(),
+    isMobile: platformType === 'mobile' || platformType === 'tablet',
+    version: browser.getBrowserVersion(),
+    os: browser.getOSName().toLowerCase(),
+    platform: platformType
+  };
+};
+
+// Every error the setup below can report, so callers and tests can match on them
+export const CAPABILITY_ERRORS = {
+  notAvailable: `The AI features are not available. Please ensure you:
+  1. Are using Google Chrome desktop browser
+  2. Have enabled experimental AI features in chrome://flags
+  3. Have restarted Chrome after enabling the flags`,
+  brave: 'Brave browser is not supported. The AI features require Google Chrome desktop browser with experimental features enabled.',
+  mobileChrome: (platform?: string) =>
+    `Chrome ${platform} is not supported. The AI features require desktop Chrome browser with experimental features enabled. Please use a desktop computer with Chrome browser.`,
+  unsupportedBrowser: (name: string, platform?: string) =>
+    `${name.charAt(0).toUpperCase() + name.slice(1)} browser on ${platform} is not supported. Please use Google Chrome desktop browser and enable experimental AI features:
+    1. Open chrome://flags in Chrome
+    2. Enable "Experimental AI features"
+    3. Enable "AI Summarization"
+    4. Enable "Translation API"
+    5. Enable "Language Detection API"
+    6. Restart Chrome`,
+  summarizerUnusable: 'Summarizer API is not usable on this device. Please check Chrome flags and ensure your device meets the requirements.',
+  summarizerWaitingForNetwork: 'The summarizer model has not been downloaded yet. The download will start when you are back online.',
+  networkLostDuringSetup: 'Network connection lost during setup. Please check your internet connection and try again.',
+  summarizerFailed: (reason?: string) => reason
+    ? `Failed to initialize summarizer: ${reason}`
+    : 'Failed to create summarizer instance. Please try again.',
+  summarizerApiFailed: (reason?: string) => reason
+    ? `Failed to initialize Summarizer API: ${reason}`
+    : 'Failed to initialize Summarizer API. Please ensure Chrome flags are enabled and restart browser.',
+  translatorFailed: 'Failed to initialize APIs. Please switch to Google Chrome desktop and enable the required experimental flags.',
+};
+
+export const checkBrowserCompatibility = async (
+  environment: BrowserEnvironment = getBrowserEnvironment()
+): Promise<CompatibilityResult> => {
+  const browserInfo = getBrowserInfo(environment.userAgent);
+
+  // Chrome desktop on Windows, Mac, or Linux
+  if (browserInfo.name === 'chrome' && !browserInfo.isMobile) {
+    // Check if it's actually Brave
+    if (await environment.isBrave()) {
+      return { compatible: false, message: CAPABILITY_ERRORS.brave };
+    }
+    return { compatible: true, message: null };
+  }
+
+  // Chrome on mobile/tablet
+  if (browserInfo.name === 'chrome' && browserInfo.isMobile) {
+    return { compatible: false, message: CAPABILITY_ERRORS.mobileChrome(browserInfo.platform) };
+  }
+
+  return { compatible: false, message: CAPABILITY_ERRORS.unsupportedBrowser(browserInfo.name, browserInfo.platform) };
+};
+
+export type SetupResult =
+  | { status: 'ready' }
+  // Try again once the connection is back; `message` explains the wait
+  | { status: 'waiting-for-network'; message?: string }
+  // The model needs downloading and the user has not allowed it
+  | { status: 'declined' }
+  | { status: 'failed'; code: ErrorCode; message: string | null };
+
+export type SetupOptions = {
+  isOnline: () => boolean;
+  // Asked before a model download starts
+  confirmDownload?: () => boolean | Promise<boolean>;
+  retryDelayMs?: number;
+};
+
+const reason = (error: unknown): string | undefined => error instanceof Error ? error.message : undefined;
+
+export const setupSummarizer = async (
+  provider: TextAIProvider,
+  { isOnline, confirmDownload = () => true, retryDelayMs = 5000 }: SetupOptions
+): Promise<SetupResult> => {
+  const { compatible, message } = await provider.checkCompatibility();
+  if (!compatible) return { status: 'failed', code: 'unsupported-browser', message };
+
+  if (!provider.isSupported('summarizer')) {
+    return { status: 'failed', code: 'flag-disabled', message: CAPABILITY_ERRORS.notAvailable };
+  }
+
+  try {
+    const available = await provider.availability('summarizer');
+    if (available === 'no') {
+      return { status: 'failed', code: 'model-unavailable', message: CAPABILITY_ERRORS.summarizerUnusable };
+    }
+
+    // Downloading needs the network; a model that is already present works offline
+    if (available === 'after-download' && !isOnline()) {
+      return { status: 'waiting-for-network', message: CAPABILITY_ERRORS.summarizerWaitingForNetwork };
+    }
+
+    if (available === 'after-download' && !await confirmDownload()) {
+      return { status: 'declined' };
+    }
+
+    try {
+      await retryOperation(
+        async () => {
+          if (available === 'after-download' && !isOnline()) {
+            throw new Error('Network connection lost');
+          }
+          await provider.prepareSummarizer();
+        },
+        available === 'after-download' ? 3 : 1,
+        retryDelayMs
+      );
+      return { status: 'ready' };
+    } catch (error) {
+      return isOnline()
+        ? { status: 'failed', code: 'download-failed', message: CAPABILITY_ERRORS.summarizerFailed(reason(error)) }
+        : { status: 'failed', code: 'network', message: CAPABILITY_ERRORS.networkLostDuringSetup };
+    }
+  } catch (error) {
+    return { status: 'failed', code: 'flag-disabled', message: CAPABILITY_ERRORS.summarizerApiFailed(reason(error)) };
+  }
+};
+
+// Preparing one common pair shows whether translation works at all
+const PROBE_PAIR: LanguagePair = { sourceLanguage: 'en', targetLanguage: 'es' };
+
+export const setupTranslator = async (
+  provider: TextAIProvider,
+  { isOnline }: SetupOptions
+): Promise<SetupResult> => {
+  const { compatible, message } = await provider.checkCompatibility();
+  if (!compatible) return { status: 'failed', code: 'unsupported-browser', message };
+
+  try {
+    if (!provider.isSupported('translator')) {
+      return { status: 'failed', code: 'flag-disabled', message: CAPABILITY_ERRORS.notAvailable };
+    }
+
+    // Wait for the network if the model is not downloaded yet
+    if (!isOnline() && await provider.requiresNetwork({ capability: 'translator', pair: PROBE_PAIR })) {
+      return { status: 'waiting-for-network' };
+    }
+    await provider.prepareTranslator(PROBE_PAIR);
+    return { status: 'ready' };
+  } catch (error) {
+    return {
+      status: 'failed',
+      code: reason(error) ? errorCodeFor(error) : 'flag-disabled',
+      message: reason(error) ?? CAPABILITY_ERRORS.translatorFailed,
+    };
+  }
+};
+
+// The detector is optional, so failures and a declined download just mean it is not used
+export const setupLanguageDetector = async (
+  provider: TextAIProvider,
+  { confirmDownload = () => true }: Pick<SetupOptions, 'confirmDownload'> = {}
+): Promise<boolean> => {
+  if (!provider.isSupported('languageDetector')) return false;
+  try {
+    const available = await provider.availability('languageDetector');
+    if (available === 'no') return false;
+    if (available === 'after-download' && !await confirmDownload()) return false;
+    await provider.prepareLanguageDetector();
+    const testResult = await provider.detect('Hello, world!');
+    return testResult.length > 0;
+  } catch {
+    return false;
+  }
+};
@@ -0,0 +1,208 @@
+import type {
+  Availability,
+  AICapability,
+  DownloadProgressEvent,
+  LanguageDetectorInstance,
+  LanguagePair,
+  PrepareOptions,
+  SummarizeOptions,
+  SummarizerOptions,
+  TextAIProvider,
+  TranslatorCapabilities,
+} from './types';
+import { CAPABILITY_ERRORS, checkBrowserCompatibility } from './capabilities';
+import { DEFAULT_SUMMARIZER_OPTIONS, summarizerOptionsKey } from './summarizer-options';
+import { createInstancePool, createTranslatorPool } from './translator-pool';
+import { readTextStream, streamFromPromise } from './streaming';
+
+// Each summarizer holds its own model session, so only the most recently
+// used option combinations are kept
+const MAX_POOLED_SUMMARIZERS = 3;
+
+const getAI = () => {
+  if (typeof window === 'undefined' || !window.ai) {
+    throw new Error(CAPABILITY_ERRORS.notAvailable);
+  }
+  return window.ai;
+};
+
+// Forward Chrome's downloadprogress events to the caller's callback
+const createMonitor = (options?: PrepareOptions) => (m: EventTarget) => {
+  if (!options?.onDownloadProgress) return;
+  const onDownloadProgress = options.onDownloadProgress;
+  m.addEventListener('downloadprogress', ((e: Event) => {
+    const progressEvent = e as DownloadProgressEvent;
+    onDownloadProgress({ loaded: progressEvent.loaded, total: progressEvent.total });
+  }) as EventListener);
+};
+
+export const createChromeProvider = (): TextAIProvider => {
+  // One instance per option combination, up to MAX_POOLED_SUMMARIZERS. Kept
+  // across retries so a stalled download is resumed rather than restarted.
+  const summarizers = createInstancePool(
+    summarizerOptionsKey,
+    (summarizerOptions: SummarizerOptions, options?: PrepareOptions) => {
+      const { type, format, length, sharedContext } = summarizerOptions;
+      return getAI().summarizer.create({
+        type,
+        format,
+        length,
+        sharedContext: sharedContext?.trim() || undefined,
+        monitor: createMonitor(options),
+      });
+    },
+    MAX_POOLED_SUMMARIZERS
+  );
+
+  const getSummarizer = (
+    summarizerOptions: SummarizerOptions = DEFAULT_SUMMARIZER_OPTIONS,
+    options?: PrepareOptions
+  ) => summarizers.get(summarizerOptions, options);
+
+  // Held for as long as it is summarizing, so it cannot be destroyed midway
+  const holdSummarizer = (options?: SummarizeOptions) =>
+    summarizers.hold(options?.summarizer ?? DEFAULT_SUMMARIZER_OPTIONS, options);
+
+  const translators = createTranslatorPool(async (pair: LanguagePair, options?: PrepareOptions) => {
+    const translatorInstance = await getAI().translator.create({
+      ...pair,
+      monitor: createMonitor(options),
+    });
+
+    // Wait for the translator to be ready if needed
+    if (translatorInstance.ready) {
+      await translatorInstance.ready;
+    }
+    return translatorInstance;
+  });
+
+  let translatorCapabilities: Promise<TranslatorCapabilities> | null = null;
+
+  // One detector serves every call; a failed creation is retried next time
+  let languageDetectorPromise: Promise<LanguageDetectorInstance> | null = null;
+
+  const getLanguageDetector = (options?: PrepareOptions) => {
+    if (!languageDetectorPromise) {
+      languageDetectorPromise = (async () => {
+        const languageDetector = getAI().languageDetector;
+        if (!languageDetector) {
+          throw new Error('Language Detection API is not available.');
+        }
+        const detector = await languageDetector.create({ monitor: createMonitor(options) });
+        if (detector.ready) {
+          await detector.ready;
+        }
+        return detector;
+      })();
+      languageDetectorPromise.catch(() => {
+        languageDetectorPromise = null;
+      });
+    }
+    return languageDetectorPromise;
+  };
+
+  const availability = async (capability: 'summarizer' | 'languageDetector'): Promise<Availability> => {
+    const api = getAI()[capability];
+    if (!api) return 'no';
+    const { available } = await api.capabilities();
+    return available;
+  };
+
+  const languagePairAvailability = async (pair: LanguagePair): Promise<Availability> => {
+    // A pooled translator is already usable, no need to ask again
+    if (translators.has(pair)) return 'readily';
+    if (!translatorCapabilities) {
+      translatorCapabilities = getAI().translator.capabilities();
+      translatorCapabilities.catch(() => {
+        translatorCapabilities = null;
+      });
+    }
+    const capabilities = await translatorCapabilities;
+    return capabilities.languagePairAvailable(pair.sourceLanguage, pair.targetLanguage);
+  };
+
+  return {
+    id: 'chrome',
+
+    checkCompatibility: () => checkBrowserCompatibility(),
+
+    isSupported: (capability: AICapability) =>
+      typeof window !== 'undefined' && 'ai' in window && !!window.ai?.[capability],
+
+    availability,
+
+    languagePairAvailability,
+
+    prepareSummarizer: async (options) => {
+      const summarizer = await getSummarizer(options?.summarizer, options);
+      await summarizer.ready;
+    },
+
+    prepareTranslator: async (pair, options) => {
+      await translators.get(pair, options);
+    },
+
+    prepareLanguageDetector: async (options) => {
+      await getLanguageDetector(options);
+    },
+
+    summarize: async (text, options) => {
+      const { instance, release } = holdSummarizer(options);
+      try {
+        return await (await instance).summarize(text, { signal: options?.signal });
+      } finally {
+        release();
+      }
+    },
+
+    translate: async (text, pair, options) => {
+      const { instance, release } = translators.hold(pair, options);
+      try {
+        return await (await instance).translate(text, { signal: options?.signal });
+      } finally {
+        release();
+      }
+    },
+
+    summarizeStreaming: async function* (text, options) {
+      const { instance, release } = holdSummarizer(options);
+      try {
+        const summarizer = await instance;
+        if (!summarizer.summarizeStreaming) {
+          yield* streamFromPromise(summarizer.summarize(text, { signal: options?.signal }));
+          return;
+        }
+        yield* readTextStream(summarizer.summarizeStreaming(text, { signal: options?.signal }), options?.signal);
+      } finally {
+        release();
+      }
+    },
+
+    translateStreaming: async function* (text, pair, options) {
+      const { instance, release } = translators.hold(pair, options);
+      try {
+        const translatorInstance = await instance;
+        if (!translatorInstance.translateStreaming) {
+          yield* streamFromPromise(translatorInstance.translate(text, { signal: options?.signal }));
+          return;
+        }
+        yield* readTextStream(translatorInstance.translateStreaming(text, { signal: options?.signal }), options?.signal);
+      } finally {
+        release();
+      }
+    },
+
+    detect: async (text) => {
+      const detector = await getLanguageDetector();
+      return detector.detect(text);
+    },
+
+    // Inference is on-device; only a model that is not downloaded yet needs the network
+    requiresNetwork: async (model) => {
+      const available = model.capability === 'translator'
+        ? await languagePairAvailability(model.pair)
+        : await availability(model.capability);
+      return available === 'after-download';
+    },
+  };
+};
@@ -0,0 +1,160 @@
+import { chunkText, DEFAULT_CHUNK_TOKEN_BUDGET, estimateTokens, splitSentences, type TextChunk } from '@/lib/chunking';
+import type { TranslationMemory } from '@/lib/translation-memory';
+import {
+  memoryFor,
+  routePair,
+  streamTranslationRoute,
+  type RouteOptions,
+  type TranslationRoute,
+} from './translation-route';
+import type { LanguagePair, SummarizeOptions, TextAIProvider } from './types';
+
+export type ChunkProgress = {
+  completed: number;
+  total: number;
+  label: string;
+};
+
+type ChunkedOptions = {
+  maxTokens?: number;
+  onProgress?: (progress: ChunkProgress) => void;
+};
+
+// Part of a chunk: one sentence found in the translation memory, or
+// neighbouring sentences that were not
+type MemoryRun = {
+  sentences: TextChunk[];
+  remembered?: string;
+};
+
+// Sentences are looked up one by one, but those the memory does not have are
+// sent to the model together, so a chunk still takes one call and keeps its context
+const splitByMemory = async (chunk: TextChunk, pair: LanguagePair, memory: TranslationMemory): Promise<MemoryRun[]> => {
+  const sentences = splitSentences(chunk.text);
+  if (sentences.length === 0) return [{ sentences: [chunk] }];
+  sentences[sentences.length - 1].separator += chunk.separator;
+
+  const runs: MemoryRun[] = [];
+  for (const sentence of sentences) {
+    const remembered = sentence.text.trim() ? await memory.lookup(pair, sentence.text) : undefined;
+    const previous = runs[runs.length - 1];
+    if (remembered !== undefined) {
+      runs.push({ sentences: [sentence], remembered });
+    } else if (previous && previous.remembered === undefined) {
+      previous.sentences.push(sentence);
+    } else {
+      runs.push({ sentences: [sentence] });
+    }
+  }
+  return runs;
+};
+
+// Stores a run sentence by sentence when its translation has as many
+// sentences; otherwise the sentences cannot be matched up and are not stored
+const rememberRun = async (
+  sentences: TextChunk[],
+  target: string,
+  pair: LanguagePair,
+  memory: TranslationMemory,
+  onSegment: RouteOptions['onSegment']
+): Promise<void> => {
+  const targets = splitSentences(target);
+  if (targets.length !== sentences.length) {
+    const source = sentences.map(sentence => sentence.text + sentence.separator).join('').trim();
+    onSegment?.({ source, target: target.trim(), fromMemory: false });
+    return;
+  }
+  for (const [index, sentence] of sentences.entries()) {
+    if (!sentence.text.trim()) continue;
+    await memory.store(pair, sentence.text, targets[index].text);
+    onSegment?.({ source: sentence.text.trim(), target: targets[index].text.trim(), fromMemory: false });
+  }
+};
+
+// Translates chunk by chunk, yielding the reassembled translation so far
+export async function* streamChunkedTranslation(
+  provider: TextAIProvider,
+  text: string,
+  route: TranslationRoute,
+  { maxTokens = DEFAULT_CHUNK_TOKEN_BUDGET, onProgress, ...options }: RouteOptions & ChunkedOptions = {}
+): AsyncGenerator<string> {
+  const chunks = chunkText(text, maxTokens);
+  const pair = routePair(route);
+  const memory = memoryFor(route, options.memory);
+  // The memory is handled here, per sentence, rather than per request by the route
+  const routeOptions = memory ? { ...options, memory: undefined, onSegment: undefined } : options;
+  let translated = '';
+
+  for (const [index, chunk] of chunks.entries()) {
+    if (chunks.length > 1) {
+      onProgress?.({ completed: index, total: chunks.length, label: `Translating part ${index + 1} of ${chunks.length}` });
+    }
+
+    const runs = memory ? await splitByMemory(chunk, pair, memory) : [{ sentences: [chunk] }];
+    for (const { sentences, remembered } of runs) {
+      const separator = sentences[sentences.length - 1].separator;
+      const text = sentences
+        .map((sentence, position) => position < sentences.length - 1 ? sentence.text + sentence.separator : sentence.text)
+        .join('');
+      // Leading whitespace is copied rather than left to the model
+      const content = text.trimStart();
+      translated += text.slice(0, text.length - content.length);
+
+      if (remembered !== undefined) {
+        options.onSegment?.({ source: content, target: remembered, fromMemory: true });
+        translated += remembered + separator;
+        yield translated;
+        continue;
+      }
+
+      let partial = content;
+      if (content) {
+        for await (partial of streamTranslationRoute(provider, content, route, routeOptions)) {
+          yield translated + partial;
+        }
+        if (memory) await rememberRun(sentences, partial, pair, memory, options.onSegment);
+      }
+      translated += partial + separator;
+    }
+  }
+  // Trailing whitespace, and input with nothing to translate
+  yield translated;
+}
+
+// Summarizes each chunk, then summarizes the summaries until they fit in a
+// single request. Only the final summary is streamed.
+export async function* streamHierarchicalSummary(
+  provider: TextAIProvider,
+  text: string,
+  { maxTokens = DEFAULT_CHUNK_TOKEN_BUDGET, onProgress, ...options }: SummarizeOptions & ChunkedOptions = {}
+): AsyncGenerator<string> {
+  let input = text;
+  let round = 1;
+
+  while (estimateTokens(input) > maxTokens) {
+    const chunks = chunkText(input, maxTokens);
+    const summaries: string[] = [];
+    for (const [index, chunk] of chunks.entries()) {
+      onProgress?.({
+        completed: index,
+        total: chunks.length,
+        label: `${round > 1 ? `Round ${round}: summarizing` : 'Summarizing'} part ${index + 1} of ${chunks.length}`,
+      });
+      summaries.push(await provider.summarize(chunk.text, options));
+    }
+
+    const combined = summaries.join('\n\n');
+    // Guard against a model that doesn't shorten its input
+    if (estimateTokens(combined) >= estimateTokens(input)) {
+      input = combined.slice(0, maxTokens * 4);
+      break;
+    }
+    input = combined;
+    round += 1;
+  }
+
+  if (input !== text) {
+    onProgress?.({ completed: 1, total: 1, label: 'Combining section summaries' });
+  }
+  yield* provider.summarizeStreaming(input, options);
+}
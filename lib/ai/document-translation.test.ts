@@ -0,0 +1,28 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { TranslationMemory } from '@/lib/translation-memory';
+import { streamDocumentTranslation } from './document-translation';
+import type { TranslationRoute } from './translation-route';
+import type { TextAIProvider } from './types';
+
+const route: TranslationRoute = { kind: 'direct', steps: [{ sourceLanguage: 'en', targetLanguage: 'fr' }] };
+
+const provider = {
+  translate: async (text: string) => text.toUpperCase(),
+} as unknown as TextAIProvider;
+
+const translateAll = async (text: string, memory: TranslationMemory) => {
+  let translated = '';
+  for await (translated of streamDocumentTranslation(provider, text, 'markdown', route, { memory }));
+  return translated;
+};
+
+describe('streamDocumentTranslation', () => {
+  it('keeps markup and only remembers text without placeholders', async () => {
+    const memory = { lookup: vi.fn(async () => undefined), store: vi.fn(async () => {}) };
+    const translated = await translateAll('Plain words here.\n\nSome **bold** words.\n', memory);
+
+    expect(translated).toBe('PLAIN WORDS HERE.\n\nSOME **BOLD** WORDS.\n');
+    expect(memory.store).toHaveBeenCalledTimes(1);
+    expect(memory.store).toHaveBeenCalledWith(route.steps[0], 'Plain words here.', 'PLAIN WORDS HERE.');
+  });
+});
@@ -0,0 +1,54 @@
+import { chunkText, DEFAULT_CHUNK_TOKEN_BUDGET } from '@/lib/chunking';
+import { hasMarkupPlaceholders, splitDocument, restoreMarkup, type DocumentFormat } from '@/lib/document-format';
+import type { ChunkProgress } from './chunked';
+import { translateAlongRoute, type RouteOptions, type TranslationRoute } from './translation-route';
+import type { TextAIProvider } from './types';
+
+type DocumentTranslationOptions = RouteOptions & {
+  // Pieces longer than this are translated in parts, like plain text
+  maxTokens?: number;
+  onProgress?: (progress: ChunkProgress) => void;
+};
+
+// Translates only the text of a Markdown or HTML document, piece by piece,
+// so code, URLs, tags and attributes come back exactly as they went in.
+// Yields the document translated so far.
+export async function* streamDocumentTranslation(
+  provider: TextAIProvider,
+  text: string,
+  format: DocumentFormat,
+  route: TranslationRoute,
+  { onProgress, maxTokens = DEFAULT_CHUNK_TOKEN_BUDGET, ...options }: DocumentTranslationOptions = {}
+): AsyncGenerator<string> {
+  // Text with placeholders stays out of translation memory, so they never
+  // reach stored units or a TMX export
+  const markupOptions = { ...options, memory: undefined, onSegment: undefined };
+
+  // Placeholders hold no whitespace, so splitting never cuts one in half
+  const pieces = splitDocument(text, format).map(piece =>
+    piece.translate ? { ...piece, chunks: chunkText(piece.text, maxTokens) } : piece
+  );
+  const total = pieces.reduce((count, piece) => count + ('chunks' in piece ? piece.chunks.length : 0), 0);
+  let translated = '';
+  let completed = 0;
+
+  for (const piece of pieces) {
+    if (!('chunks' in piece)) {
+      translated += piece.text;
+      continue;
+    }
+    let pieceTranslation = '';
+    for (const chunk of piece.chunks) {
+      if (total > 1) {
+        onProgress?.({ completed, total, label: `Translating section ${completed + 1} of ${total}` });
+      }
+      const chunkOptions = hasMarkupPlaceholders(chunk.text) ? markupOptions : options;
+      pieceTranslation += await translateAlongRoute(provider, chunk.text, route, chunkOptions) + chunk.separator;
+      completed += 1;
+    }
+    translated += restoreMarkup(pieceTranslation, piece.markup);
+    yield translated;
+  }
+  // Whatever follows the last translated piece
+  yield translated;
+}
@@ -0,0 +1,151 @@
+import { detectDeterministically, summarizeDeterministically } from './mock-provider';
+import type { Availability, LanguagePair } from './types';
+
+// 'rejected' reports the model as available but fails when it is created
+export type FakeModelState = Availability | 'rejected';
+
+export type FakeAIScenario = {
+  summarizer: FakeModelState;
+  translator: FakeModelState;
+  languageDetector: FakeModelState;
+  // How an 'after-download' model reports its progress
+  downloadSteps: number;
+  downloadStepMs: number;
+  offline: boolean;
+};
+
+export const DEFAULT_FAKE_AI_SCENARIO: FakeAIScenario = {
+  summarizer: 'readily',
+  translator: 'readily',
+  languageDetector: 'readily',
+  downloadSteps: 5,
+  downloadStepMs: 200,
+  offline: false,
+};
+
+const withModels = (state: FakeModelState, overrides: Partial<FakeAIScenario> = {}): FakeAIScenario => ({
+  ...DEFAULT_FAKE_AI_SCENARIO,
+  summarizer: state,
+  translator: state,
+  languageDetector: state,
+  ...overrides,
+});
+
+// One per state the app has to handle, selectable with NEXT_PUBLIC_FAKE_AI_SCENARIO
+export const FAKE_AI_SCENARIOS: Record<string, FakeAIScenario> = {
+  readily: DEFAULT_FAKE_AI_SCENARIO,
+  'after-download': withModels('after-download'),
+  'download-progress': withModels('after-download', { downloadSteps: 20, downloadStepMs: 500 }),
+  no: withModels('no'),
+  rejected: withModels('rejected'),
+  offline: withModels('after-download', { offline: true }),
+};
+
+type Monitor = (m: EventTarget) => void;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Stands in for window.ai: reports each model in the state the scenario
+// gives it and simulates downloads, failures and a lost connection
+export const createFakeWindowAI = (
+  scenario: FakeAIScenario = DEFAULT_FAKE_AI_SCENARIO,
+  isOnline: () => boolean = () => !scenario.offline
+): NonNullable<Window['ai']> => {
+  const states = {
+    summarizer: scenario.summarizer,
+    languageDetector: scenario.languageDetector,
+  };
+  // Translation models are downloaded per pair
+  const downloadedPairs = new Set<string>();
+
+  const reported = (state: FakeModelState): Availability => state === 'rejected' ? 'readily' : state;
+
+  const pairState = ({ sourceLanguage, targetLanguage }: LanguagePair): FakeModelState => {
+    if (sourceLanguage === targetLanguage) return 'no';
+    return downloadedPairs.has(`${sourceLanguage}>${targetLanguage}`) ? 'readily' : scenario.translator;
+  };
+
+  // Resolves once the model is usable, firing downloadprogress events on the way
+  const createModel = async (name: string, state: FakeModelState, monitor?: Monitor): Promise<void> => {
+    if (state === 'no') throw new Error(`The ${name} model is not available on this device (simulated).`);
+    if (state === 'rejected') throw new Error(`The ${name} model failed to load (simulated).`);
+    if (state === 'readily') return;
+
+    if (!isOnline()) throw new Error(`The ${name} model cannot be downloaded while offline (simulated).`);
+    const target = new EventTarget();
+    monitor?.(target);
+    for (let step = 1; step <= scenario.downloadSteps; step++) {
+      await wait(scenario.downloadStepMs);
+      if (!isOnline()) throw new Error(`Network connection lost while downloading the ${name} model (simulated).`);
+      target.dispatchEvent(Object.assign(new Event('downloadprogress'), {
+        loaded: step,
+        total: scenario.downloadSteps,
+      }));
+    }
+  };
+
+  return {
+    summarizer: {
+      capabilities: async () => ({ available: reported(states.summarizer) }),
+      create: async ({ monitor, type, length, format } = {}) => {
+        await createModel('summarizer', states.summarizer, monitor);
+        states.summarizer = 'readily';
+        const events = new EventTarget();
+        return {
+          summarize: async (text) => summarizeDeterministically(text, {
+            type: type ?? 'key-points',
+            length: length ?? 'medium',
+            format: format ?? 'markdown',
+          }),
+          ready: Promise.resolve(),
+          addEventListener: (event, handler) => events.addEventListener(event, handler),
+        };
+      },
+    },
+    translator: {
+      translateText: async (text, targetLang) => `[${targetLang}] ${text}`,
+      capabilities: async () => ({
+        languagePairAvailable: async (sourceLanguage, targetLanguage) =>
+          reported(pairState({ sourceLanguage, targetLanguage })),
+      }),
+      create: async ({ sourceLanguage, targetLanguage, monitor }) => {
+        await createModel('translator', pairState({ sourceLanguage, targetLanguage }), monitor);
+        downloadedPairs.add(`${sourceLanguage}>${targetLanguage}`);
+        return {
+          translate: async (text) => `[${targetLanguage}] ${text}`,
+          ready: Promise.resolve(),
+        };
+      },
+    },
+    languageDetector: {
+      capabilities: async () => ({ available: reported(states.languageDetector) }),
+      create: async ({ monitor } = {}) => {
+        await createModel('language detector', states.languageDetector, monitor);
+        states.languageDetector = 'readily';
+        return {
+          detect: async (text) => detectDeterministically(text),
+          ready: Promise.resolve(),
+        };
+      },
+    },
+  };
+};
+
+// Puts the fake in place of window.ai. An offline scenario also makes
+// navigator.onLine report false; setOnline flips it and fires the matching
+// window event, as the browser would.
+export const installFakeWindowAI = (scenario: FakeAIScenario = DEFAULT_FAKE_AI_SCENARIO) => {
+  if (typeof window === 'undefined') return { setOnline: () => {} };
+
+  let online = !scenario.offline;
+  window.ai = createFakeWindowAI(scenario, () => online);
+  Object.defineProperty(window.navigator, 'onLine', { configurable: true, get: () => online });
+
+  return {
+    setOnline: (value: boolean) => {
+      if (value === online) return;
+      online = value;
+      window.dispatchEvent(new Event(value ? 'online' : 'offline'));
+    },
+  };
+};
@@ -0,0 +1,97 @@
+import type { AICapability, Availability, LanguagePair, TextAIProvider } from './types';
+
+const pairKey = ({ sourceLanguage, targetLanguage }: LanguagePair) => `${sourceLanguage}->${targetLanguage}`;
+
+// Uses `primary` for each capability unless it is missing or reports
+// available: 'no', in which case `fallback` handles that capability.
+export const createFallbackProvider = (
+  primary: TextAIProvider,
+  fallback: TextAIProvider
+): TextAIProvider => {
+  const capabilityBackends = new Map<AICapability, Promise<TextAIProvider>>();
+  const pairBackends = new Map<string, Promise<TextAIProvider>>();
+
+  const primaryAvailability = async (check: () => Promise<Availability>): Promise<Availability> => {
+    try {
+      return await check();
+    } catch {
+      return 'no';
+    }
+  };
+
+  const resolveCapability = (capability: 'summarizer' | 'languageDetector') => {
+    let backend = capabilityBackends.get(capability);
+    if (!backend) {
+      backend = (async () => {
+        if (!primary.isSupported(capability)) return fallback;
+        const available = await primaryAvailability(() => primary.availability(capability));
+        return available === 'no' ? fallback : primary;
+      })();
+      capabilityBackends.set(capability, backend);
+    }
+    return backend;
+  };
+
+  const resolvePair = (pair: LanguagePair) => {
+    const key = pairKey(pair);
+    let backend = pairBackends.get(key);
+    if (!backend) {
+      backend = (async () => {
+        if (!primary.isSupported('translator')) return fallback;
+        const available = await primaryAvailability(() => primary.languagePairAvailability(pair));
+        return available === 'no' ? fallback : primary;
+      })();
+      pairBackends.set(key, backend);
+    }
+    return backend;
+  };
+
+  return {
+    id: `${primary.id}+${fallback.id}`,
+
+    checkCompatibility: async () => {
+      const result = await primary.checkCompatibility();
+      if (result.compatible) return result;
+
+      // An unsupported browser can still use the fallback for everything
+      const fallbackResult = await fallback.checkCompatibility();
+      return fallbackResult.compatible ? fallbackResult : result;
+    },
+
+    isSupported: (capability) => primary.isSupported(capability) || fallback.isSupported(capability),
+
+    availability: async (capability) => (await resolveCapability(capability)).availability(capability),
+
+    languagePairAvailability: async (pair) => (await resolvePair(pair)).languagePairAvailability(pair),
+
+    prepareSummarizer: async (options) =>
+      (await resolveCapability('summarizer')).prepareSummarizer(options),
+
+    prepareTranslator: async (pair, options) =>
+      (await resolvePair(pair)).prepareTranslator(pair, options),
+
+    prepareLanguageDetector: async (options) =>
+      (await resolveCapability('languageDetector')).prepareLanguageDetector(options),
+
+    summarize: async (text, options) => (await resolveCapability('summarizer')).summarize(text, options),
+
+    translate: async (text, pair, options) => (await resolvePair(pair)).translate(text, pair, options),
+
+    summarizeStreaming: async function* (text, options) {
+      yield* (await resolveCapability('summarizer')).summarizeStreaming(text, options);
+    },
+
+    translateStreaming: async function* (text, pair, options) {
+      yield* (await resolvePair(pair)).translateStreaming(text, pair, options);
+    },
+
+    detect: async (text) => (await resolveCapability('languageDetector')).detect(text),
+
+    requiresNetwork: async (model) => {
+      const backend = model.capability === 'translator'
+        ? await resolvePair(model.pair)
+        : await resolveCapability(model.capability);
+      return backend.requiresNetwork(model);
+    },
+  };
+};
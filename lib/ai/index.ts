@@ -0,0 +1,39 @@
+import { createChromeProvider } from './chrome-provider';
+import { createFallbackProvider } from './fallback-provider';
+import { DEFAULT_FAKE_AI_SCENARIO, FAKE_AI_SCENARIOS, installFakeWindowAI } from './fake-window-ai';
+import { createMockProvider } from './mock-provider';
+import { createServerProvider } from './server-provider';
+import type { TextAIProvider } from './types';
+
+export type * from './types';
+export { createChromeProvider, createFallbackProvider, createMockProvider, createServerProvider };
+export { isAbortError } from './streaming';
+
+let provider: TextAIProvider | null = null;
+
+// Selected with NEXT_PUBLIC_AI_PROVIDER: 'mock', 'server', 'fake', or by default
+// Chrome's built-in AI with the server routes as fallback
+export const getTextAIProvider = (): TextAIProvider => {
+  if (!provider) {
+    switch (process.env.NEXT_PUBLIC_AI_PROVIDER) {
+      case 'mock':
+        provider = createMockProvider();
+        break;
+      case 'server':
+        provider = createServerProvider();
+        break;
+      case 'fake':
+        // Chrome's code path against a simulated window.ai, whatever the browser
+        installFakeWindowAI(FAKE_AI_SCENARIOS[process.env.NEXT_PUBLIC_FAKE_AI_SCENARIO ?? 'readily'] ?? DEFAULT_FAKE_AI_SCENARIO);
+        provider = {
+          ...createChromeProvider(),
+          id: 'fake',
+          checkCompatibility: async () => ({ compatible: true, message: null }),
+        };
+        break;
+      default:
+        provider = createFallbackProvider(createChromeProvider(), createServerProvider());
+    }
+  }
+  return provider;
+};
@@ -0,0 +1,100 @@
+import { createAbortError } from './streaming';
+import { DEFAULT_SUMMARIZER_OPTIONS } from './summarizer-options';
+import type { LanguageDetectionResult, SummarizerOptions, TextAIProvider } from './types';
+
+// Scripts that identify a language on their own
+const SCRIPT_PATTERNS: Array<[string, RegExp]> = [
+  ['ja', /[぀-ヿ]/],
+  ['ko', /[가-힯]/],
+  ['zh', /[一-鿿]/],
+  ['ru', /[Ѐ-ӿ]/],
+  ['ar', /[؀-ۿ]/],
+  ['he', /[֐-׿]/],
+  ['hi', /[ऀ-ॿ]/],
+];
+
+// Common function words used to tell Latin-script languages apart
+const STOPWORDS: Record<string, string[]> = {
+  en: ['the', 'and', 'is', 'of', 'to', 'in', 'it', 'that', 'with', 'for'],
+  es: ['el', 'la', 'de', 'que', 'y', 'en', 'los', 'es', 'por', 'con'],
+  fr: ['le', 'la', 'les', 'de', 'et', 'est', 'des', 'un', 'une', 'pour'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ein', 'eine', 'mit', 'zu'],
+  pt: ['o', 'a', 'de', 'que', 'e', 'do', 'da', 'em', 'um', 'não'],
+  tr: ['ve', 'bir', 'bu', 'da', 'de', 'için', 'ile', 'çok', 'ne', 'gibi'],
+};
+
+export const detectDeterministically = (text: string): LanguageDetectionResult[] => {
+  for (const [code, pattern] of SCRIPT_PATTERNS) {
+    if (pattern.test(text)) {
+      return [{ detectedLanguage: code, confidence: 0.95 }];
+    }
+  }
+
+  const words = text.toLowerCase().split(/[\s.,!?;:"'()¿¡]+/).filter(Boolean);
+  if (words.length === 0) return [];
+
+  const hits = Object.entries(STOPWORDS)
+    .map(([code, stopwords]) => ({
+      code,
+      count: words.filter(word => stopwords.includes(word)).length,
+    }))
+    .filter(hit => hit.count > 0);
+  const totalHits = hits.reduce((sum, hit) => sum + hit.count, 0);
+
+  // Nothing recognisable: report English with low confidence
+  if (totalHits === 0) return [{ detectedLanguage: 'en', confidence: 0.5 }];
+
+  return hits
+    .map(hit => ({ detectedLanguage: hit.code, confidence: hit.count / totalHits }))
+    .sort((a, b) => b.confidence - a.confidence);
+};
+
+const SENTENCES_PER_LENGTH = { short: 1, medium: 3, long: 5 };
+
+export const summarizeDeterministically = (
+  text: string,
+  { type, length, format }: SummarizerOptions = DEFAULT_SUMMARIZER_OPTIONS
+): string => {
+  const sentences = (text.match(/[^.!?]+[.!?]*/g) ?? [])
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+
+  if (type === 'headline') return sentences[0]?.replace(/[.!?]+$/, '') ?? '';
+
+  const selected = sentences.slice(0, SENTENCES_PER_LENGTH[length]);
+  if (type !== 'key-points') return selected.join(' ');
+  return selected.map(sentence => format === 'markdown' ? `* ${sentence}` : `- ${sentence}`).join('\n');
+};
+
+// Reveals the text word by word, like a model streaming its output
+async function* streamWords(text: string, signal?: AbortSignal): AsyncGenerator<string> {
+  let accumulated = '';
+  for (const word of text.split(/(?=\s)/)) {
+    await new Promise(resolve => setTimeout(resolve, 15));
+    if (signal?.aborted) throw createAbortError();
+    accumulated += word;
+    yield accumulated;
+  }
+}
+
+// Predictable stand-in for the on-device models, used on machines
+// without Chrome's experimental flags and in tests.
+export const createMockProvider = (): TextAIProvider => ({
+  id: 'mock',
+  checkCompatibility: async () => ({ compatible: true, message: null }),
+  isSupported: () => true,
+  availability: async () => 'readily',
+  languagePairAvailability: async ({ sourceLanguage, targetLanguage }) =>
+    sourceLanguage === targetLanguage ? 'no' : 'readily',
+  prepareSummarizer: async () => {},
+  prepareTranslator: async () => {},
+  prepareLanguageDetector: async () => {},
+  summarize: async (text, options) => summarizeDeterministically(text, options?.summarizer),
+  translate: async (text, { targetLanguage }) => `[${targetLanguage}] ${text}`,
+  summarizeStreaming: (text, options) =>
+    streamWords(summarizeDeterministically(text, options?.summarizer), options?.signal),
+  translateStreaming: (text, { targetLanguage }, options) =>
+    streamWords(`[${targetLanguage}] ${text}`, options?.signal),
+  detect: async (text) => detectDeterministically(text),
+  requiresNetwork: async () => false,
+});
@@ -0,0 +1,138 @@
+import { loadSetting, saveSetting } from '@/lib/settings';
+import { modelKey } from './model-manager';
+import type { AICapability, AIModel, DownloadProgress } from './types';
+
+// What to do when a model needs downloading: ask, download without asking, or never download
+export type ModelConsent = 'ask' | 'allowed' | 'declined';
+
+// The answers offered when asking. 'later' keeps asking on future visits.
+export type ConsentChoice = 'now' | 'later' | 'never';
+
+// By modelKey; models without an entry are asked about
+export type ModelConsents = Record<string, ModelConsent>;
+
+export type ConsentState = {
+  // Models waiting for an answer, oldest first
+  pending: AIModel[];
+  consents: ModelConsents;
+};
+
+export type DownloadConsent = {
+  // Resolves true once downloading is allowed, false if it is not, asking if needed
+  request: (model: AIModel) => Promise<boolean>;
+  answer: (model: AIModel, choice: ConsentChoice) => void;
+  setConsent: (model: AIModel, consent: ModelConsent) => void;
+  subscribe: (listener: (state: ConsentState) => void) => () => void;
+};
+
+const CHOICE_CONSENT: Record<ConsentChoice, ModelConsent> = {
+  now: 'allowed',
+  later: 'ask',
+  never: 'declined',
+};
+
+export const loadModelConsents = (): ModelConsents => loadSetting<ModelConsents>('modelConsent', {});
+
+export const consentFor = (consents: ModelConsents, model: AIModel): ModelConsent =>
+  consents[modelKey(model)] ?? 'ask';
+
+// Asks through the UI instead of a blocking dialog. Requests for a model that
+// is already waiting share the same answer.
+export const createDownloadConsent = (): DownloadConsent => {
+  const pending = new Map<string, { model: AIModel; resolve: (allowed: boolean) => void; promise: Promise<boolean> }>();
+  const listeners = new Set<(state: ConsentState) => void>();
+
+  const snapshot = (): ConsentState => ({
+    pending: [...pending.values()].map(({ model }) => model),
+    consents: loadModelConsents(),
+  });
+
+  const notify = () => {
+    const state = snapshot();
+    listeners.forEach(listener => listener(state));
+  };
+
+  const saveConsent = (model: AIModel, consent: ModelConsent) => {
+    const consents = loadModelConsents();
+    if (consent === 'ask') delete consents[modelKey(model)];
+    else consents[modelKey(model)] = consent;
+    saveSetting('modelConsent', consents);
+  };
+
+  const settle = (model: AIModel, allowed: boolean) => {
+    const request = pending.get(modelKey(model));
+    if (!request) return;
+    pending.delete(modelKey(model));
+    request.resolve(allowed);
+  };
+
+  return {
+    request: (model) => {
+      const consent = consentFor(loadModelConsents(), model);
+      if (consent !== 'ask') return Promise.resolve(consent === 'allowed');
+
+      const waiting = pending.get(modelKey(model));
+      if (waiting) return waiting.promise;
+
+      let resolve: (allowed: boolean) => void = () => {};
+      const promise = new Promise<boolean>(done => {
+        resolve = done;
+      });
+      pending.set(modelKey(model), { model, resolve, promise });
+      notify();
+      return promise;
+    },
+
+    answer: (model, choice) => {
+      saveConsent(model, CHOICE_CONSENT[choice]);
+      settle(model, choice === 'now');
+      notify();
+    },
+
+    // A remembered choice also answers a question still on screen
+    setConsent: (model, consent) => {
+      saveConsent(model, consent);
+      if (consent !== 'ask') settle(model, consent === 'allowed');
+      notify();
+    },
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      listener(snapshot());
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
+
+// Chrome does not report a model's size before downloading it. These are
+// rough figures for the shared on-device model; language packs are small.
+const ESTIMATED_DOWNLOAD_BYTES: Partial<Record<AICapability, number>> = {
+  summarizer: 3 * 1024 ** 3,
+};
+
+export type DownloadSize = {
+  bytes: number;
+  estimated: boolean;
+};
+
+// Older Chrome builds report progress in bytes, newer ones as a 0-1 fraction;
+// only the former says how large the download is
+export const downloadSize = (model: AIModel, progress?: DownloadProgress): DownloadSize | undefined => {
+  if (progress && progress.total > 1) return { bytes: progress.total, estimated: false };
+  const estimate = ESTIMATED_DOWNLOAD_BYTES[model.capability];
+  return estimate === undefined ? undefined : { bytes: estimate, estimated: true };
+};
+
+const BYTE_UNITS = ['B', 'KB', 'MB', 'GB'];
+
+export const formatBytes = (bytes: number): string => {
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < BYTE_UNITS.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value >= 10 || unit === 0 ? Math.round(value) : value.toFixed(1)} ${BYTE_UNITS[unit]}`;
+};
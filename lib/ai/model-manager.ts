@@ -0,0 +1,165 @@
+import type {
+  AIModel,
+  Availability,
+  DownloadProgress,
+  LanguagePair,
+  PrepareOptions,
+  TextAIProvider,
+} from './types';
+
+export type ModelStatus = 'idle' | 'checking' | 'downloading' | 'failed';
+
+export type ModelState = {
+  model: AIModel;
+  // As reported by capabilities(); undefined until the first check finishes
+  availability?: Availability;
+  status: ModelStatus;
+  progress?: DownloadProgress;
+  error?: string;
+};
+
+export type ModelManager = {
+  // Wraps the provider passed in, so downloads started by any operation are tracked
+  provider: TextAIProvider;
+  check: (model: AIModel) => Promise<void>;
+  download: (model: AIModel) => Promise<void>;
+  subscribe: (listener: (states: ModelState[]) => void) => () => void;
+};
+
+export const SUMMARIZER_MODEL: AIModel = { capability: 'summarizer' };
+export const LANGUAGE_DETECTOR_MODEL: AIModel = { capability: 'languageDetector' };
+
+export const translatorModel = (pair: LanguagePair): AIModel => ({ capability: 'translator', pair });
+
+export const modelKey = (model: AIModel): string =>
+  model.capability === 'translator'
+    ? `translator:${model.pair.sourceLanguage}->${model.pair.targetLanguage}`
+    : model.capability;
+
+// Tracks the availability and download progress of every model the app has
+// touched, including several downloads running at once.
+export const createModelManager = (base: TextAIProvider): ModelManager => {
+  const states = new Map<string, ModelState>();
+  const listeners = new Set<(states: ModelState[]) => void>();
+
+  const notify = () => {
+    const list = [...states.values()];
+    listeners.forEach(listener => listener(list));
+  };
+
+  const update = (model: AIModel, changes: Partial<ModelState>) => {
+    const key = modelKey(model);
+    states.set(key, { status: 'idle', ...states.get(key), model, ...changes });
+    notify();
+  };
+
+  const markReady = (model: AIModel) =>
+    update(model, { status: 'idle', availability: 'readily', progress: undefined, error: undefined });
+
+  // Only failures during a download say anything about the model itself
+  const markFailed = (model: AIModel, error: unknown) => {
+    if (states.get(modelKey(model))?.status !== 'downloading') return;
+    update(model, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+  };
+
+  const tracked = <T extends PrepareOptions>(model: AIModel, options?: T): T => ({
+    ...options,
+    onDownloadProgress: (progress: DownloadProgress) => {
+      options?.onDownloadProgress?.(progress);
+      if (progress.total > 0 && progress.loaded >= progress.total) {
+        markReady(model);
+      } else {
+        update(model, { status: 'downloading', progress, error: undefined });
+      }
+    },
+  }) as T;
+
+  const watch = async <T,>(model: AIModel, run: () => Promise<T>): Promise<T> => {
+    try {
+      return await run();
+    } catch (error) {
+      markFailed(model, error);
+      throw error;
+    }
+  };
+
+  async function* watchStream(model: AIModel, stream: AsyncIterable<string>): AsyncGenerator<string> {
+    try {
+      yield* stream;
+    } catch (error) {
+      markFailed(model, error);
+      throw error;
+    }
+  }
+
+  const provider: TextAIProvider = {
+    ...base,
+
+    prepareSummarizer: (options) => watch(SUMMARIZER_MODEL, async () => {
+      await base.prepareSummarizer(tracked(SUMMARIZER_MODEL, options));
+      markReady(SUMMARIZER_MODEL);
+    }),
+
+    prepareTranslator: (pair, options) => watch(translatorModel(pair), async () => {
+      await base.prepareTranslator(pair, tracked(translatorModel(pair), options));
+      markReady(translatorModel(pair));
+    }),
+
+    prepareLanguageDetector: (options) => watch(LANGUAGE_DETECTOR_MODEL, async () => {
+      await base.prepareLanguageDetector(tracked(LANGUAGE_DETECTOR_MODEL, options));
+      markReady(LANGUAGE_DETECTOR_MODEL);
+    }),
+
+    summarize: (text, options) =>
+      watch(SUMMARIZER_MODEL, () => base.summarize(text, tracked(SUMMARIZER_MODEL, options))),
+
+    translate: (text, pair, options) =>
+      watch(translatorModel(pair), () => base.translate(text, pair, tracked(translatorModel(pair), options))),
+
+    summarizeStreaming: (text, options) =>
+      watchStream(SUMMARIZER_MODEL, base.summarizeStreaming(text, tracked(SUMMARIZER_MODEL, options))),
+
+    translateStreaming: (text, pair, options) =>
+      watchStream(translatorModel(pair), base.translateStreaming(text, pair, tracked(translatorModel(pair), options))),
+  };
+
+  return {
+    provider,
+
+    check: async (model) => {
+      update(model, { status: 'checking' });
+      try {
+        const availability = model.capability === 'translator'
+          ? await base.languagePairAvailability(model.pair)
+          : await base.availability(model.capability);
+        update(model, { status: 'idle', availability });
+      } catch (error) {
+        update(model, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+      }
+    },
+
+    // Errors end up in the model's state rather than being thrown
+    download: async (model) => {
+      update(model, { status: 'downloading', progress: undefined, error: undefined });
+      try {
+        if (model.capability === 'translator') {
+          await provider.prepareTranslator(model.pair);
+        } else if (model.capability === 'summarizer') {
+          await provider.prepareSummarizer();
+        } else {
+          await provider.prepareLanguageDetector();
+        }
+      } catch {
+        // Recorded by markFailed
+      }
+    },
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      listener([...states.values()]);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
@@ -0,0 +1,76 @@
+import { readTextStream } from './streaming';
+import type { Availability, TextAIProvider } from './types';
+
+const post = async (route: string, body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> => {
+  const response = await fetch(route, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({})) as { error?: string };
+    throw new Error(data.error || `Server processing failed with status ${response.status}.`);
+  }
+  return response;
+};
+
+const postJSON = async <T,>(route: string, body: Record<string, unknown>, signal?: AbortSignal): Promise<T> => {
+  const response = await post(route, body, signal);
+  const data = await response.json() as { result?: T };
+  if (data.result === undefined) {
+    throw new Error('Server processing returned an empty result.');
+  }
+  return data.result;
+};
+
+async function* postStreaming(
+  route: string,
+  body: Record<string, unknown>,
+  signal?: AbortSignal
+): AsyncGenerator<string> {
+  const response = await post(route, { ...body, stream: true }, signal);
+  if (!response.body) {
+    throw new Error('Server processing returned an empty stream.');
+  }
+  yield* readTextStream(response.body.pipeThrough(new TextDecoderStream()), signal);
+}
+
+const getAvailability = async (route: string): Promise<Availability> => {
+  try {
+    const response = await fetch(route);
+    if (!response.ok) return 'no';
+    const { available } = await response.json() as { available: Availability };
+    return available;
+  } catch {
+    return 'no';
+  }
+};
+
+// Runs every operation through the app/api routes, which forward to the
+// configured local model server.
+export const createServerProvider = (): TextAIProvider => ({
+  id: 'server',
+  checkCompatibility: async () => {
+    const available = await getAvailability('/api/summarize');
+    return available === 'no'
+      ? { compatible: false, message: 'Server-side processing is not configured. Set LOCAL_MODEL_ENDPOINT on the server.' }
+      : { compatible: true, message: null };
+  },
+  isSupported: () => true,
+  availability: (capability) =>
+    getAvailability(capability === 'summarizer' ? '/api/summarize' : '/api/detect'),
+  languagePairAvailability: () => getAvailability('/api/translate'),
+  prepareSummarizer: async () => {},
+  prepareTranslator: async () => {},
+  prepareLanguageDetector: async () => {},
+  summarize: (text, options) =>
+    postJSON('/api/summarize', { text, options: options?.summarizer }, options?.signal),
+  translate: (text, pair, options) => postJSON('/api/translate', { text, ...pair }, options?.signal),
+  summarizeStreaming: (text, options) =>
+    postStreaming('/api/summarize', { text, options: options?.summarizer }, options?.signal),
+  translateStreaming: (text, pair, options) =>
+    postStreaming('/api/translate', { text, ...pair }, options?.signal),
+  detect: (text) => postJSON('/api/detect', { text }),
+  requiresNetwork: async () => true,
+});
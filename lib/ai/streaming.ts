@@ -0,0 +1,37 @@
+export const createAbortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+// Reads a stream of text chunks and yields the accumulated text after each one.
+// Chrome has shipped both cumulative and delta chunks, so both are accepted.
+export async function* readTextStream(
+  stream: ReadableStream<string>,
+  signal?: AbortSignal
+): AsyncGenerator<string> {
+  const reader = stream.getReader();
+  const cancel = () => {
+    reader.cancel().catch(() => {});
+  };
+  signal?.addEventListener('abort', cancel);
+
+  let accumulated = '';
+  try {
+    while (true) {
+      if (signal?.aborted) throw createAbortError();
+      const { done, value } = await reader.read();
+      if (done) break;
+      accumulated = accumulated && value.startsWith(accumulated) ? value : accumulated + value;
+      yield accumulated;
+    }
+    if (signal?.aborted) throw createAbortError();
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+    reader.releaseLock();
+  }
+}
+
+// Adapts a whole-string result to the streaming interface
+export async function* streamFromPromise(result: Promise<string>): AsyncGenerator<string> {
+  yield await result;
+}
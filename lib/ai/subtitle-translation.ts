@@ -0,0 +1,21 @@
+import { serializeSubtitles, type SubtitleDocument } from '@/lib/subtitles';
+import type { ChunkProgress } from './chunked';
+import { translateAlongRoute, type RouteOptions, type TranslationRoute } from './translation-route';
+import type { TextAIProvider } from './types';
+
+// Translates cue by cue so every timing line survives untouched. Yields the
+// subtitle file with the cues translated so far.
+export async function* streamSubtitleTranslation(
+  provider: TextAIProvider,
+  subtitles: SubtitleDocument,
+  route: TranslationRoute,
+  { onProgress, ...options }: RouteOptions & { onProgress?: (progress: ChunkProgress) => void } = {}
+): AsyncGenerator<string> {
+  const cues = [...subtitles.cues];
+  for (const [index, cue] of subtitles.cues.entries()) {
+    onProgress?.({ completed: index, total: cues.length, label: `Translating cue ${index + 1} of ${cues.length}` });
+    const text = cue.text.trim() ? await translateAlongRoute(provider, cue.text, route, options) : cue.text;
+    cues[index] = { ...cue, text };
+    yield serializeSubtitles({ ...subtitles, cues: cues.slice(0, index + 1) });
+  }
+}
@@ -0,0 +1,42 @@
+import type {
+  SummarizerFormat,
+  SummarizerLength,
+  SummarizerOptions,
+  SummarizerType,
+} from './types';
+
+export const DEFAULT_SUMMARIZER_OPTIONS: SummarizerOptions = {
+  type: 'key-points',
+  length: 'medium',
+  format: 'markdown',
+  sharedContext: 'Summarize the following text into key points, maintaining important details and context.',
+};
+
+export const SUMMARIZER_TYPES: Array<{ value: SummarizerType; label: string }> = [
+  { value: 'key-points', label: 'Key points' },
+  { value: 'tl;dr', label: 'TL;DR' },
+  { value: 'teaser', label: 'Teaser' },
+  { value: 'headline', label: 'Headline' },
+];
+
+export const SUMMARIZER_LENGTHS: Array<{ value: SummarizerLength; label: string }> = [
+  { value: 'short', label: 'Short' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'long', label: 'Long' },
+];
+
+export const SUMMARIZER_FORMATS: Array<{ value: SummarizerFormat; label: string }> = [
+  { value: 'markdown', label: 'Markdown' },
+  { value: 'plain-text', label: 'Plain text' },
+];
+
+// Identifies the summarizer instance a set of options needs
+export const summarizerOptionsKey = ({ type, length, format, sharedContext }: SummarizerOptions): string =>
+  JSON.stringify([type, length, format, sharedContext?.trim() ?? '']);
+
+export const describeSummarizerOptions = ({ type, length, format }: SummarizerOptions): string =>
+  [
+    SUMMARIZER_TYPES.find(option => option.value === type)?.label ?? type,
+    SUMMARIZER_LENGTHS.find(option => option.value === length)?.label ?? length,
+    SUMMARIZER_FORMATS.find(option => option.value === format)?.label ?? format,
+  ].join(' · ');
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { planTranslationRoute, UnsupportedLanguagePairError } from './translation-route';
+import type { Availability, LanguagePair, TextAIProvider } from './types';
+
+// Only the pairs listed are available
+const providerWith = (pairs: string[]) => ({
+  languagePairAvailability: async ({ sourceLanguage, targetLanguage }: LanguagePair): Promise<Availability> =>
+    pairs.includes(`${sourceLanguage}-${targetLanguage}`) ? 'readily' : 'no',
+}) as unknown as TextAIProvider;
+
+describe('planTranslationRoute', () => {
+  it('translates directly when the pair is available', async () => {
+    const route = await planTranslationRoute(providerWith(['ja-en']), 'ja', 'en');
+    expect(route).toEqual({ kind: 'direct', steps: [{ sourceLanguage: 'ja', targetLanguage: 'en' }] });
+  });
+
+  it('pivots through English', async () => {
+    const route = await planTranslationRoute(providerWith(['ja-en', 'en-sw']), 'ja', 'sw');
+    expect(route.kind).toBe('pivot');
+    expect(route.steps.map(step => step.targetLanguage)).toEqual(['en', 'sw']);
+  });
+
+  it('names both languages when no route exists', async () => {
+    const attempt = planTranslationRoute(providerWith([]), 'ja', 'sw');
+    await expect(attempt).rejects.toBeInstanceOf(UnsupportedLanguagePairError);
+    await expect(attempt).rejects.toThrow('Translation from Japanese to Swahili is not supported yet.');
+  });
+});
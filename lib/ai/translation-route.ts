@@ -0,0 +1,140 @@
+import { maskGlossaryTerms, restoreGlossaryTerms, type Glossary, type MaskedText } from '@/lib/glossary';
+import { languageName } from '@/lib/languages';
+import type { TranslationMemory } from '@/lib/translation-memory';
+import type { LanguagePair, ProcessOptions, TextAIProvider } from './types';
+
+export const PIVOT_LANGUAGE = 'en';
+
+export type TranslationRoute = {
+  kind: 'direct' | 'pivot';
+  steps: LanguagePair[];
+};
+
+export type TranslatedSegment = {
+  source: string;
+  target: string;
+  fromMemory: boolean;
+};
+
+export type RouteOptions = ProcessOptions & {
+  glossary?: Glossary;
+  // Exact matches skip the model; every new translation is stored
+  memory?: TranslationMemory;
+  onSegment?: (segment: TranslatedSegment) => void;
+};
+
+export class UnsupportedLanguagePairError extends Error {
+  constructor(readonly sourceLanguage: string, readonly targetLanguage: string) {
+    super(`Translation from ${languageName(sourceLanguage)} to ${languageName(targetLanguage)} is not supported yet. Please try a different language.`);
+    this.name = 'UnsupportedLanguagePairError';
+  }
+}
+
+export const routeRequiresNetwork = async (provider: TextAIProvider, route: TranslationRoute): Promise<boolean> => {
+  const steps = await Promise.all(
+    route.steps.map(pair => provider.requiresNetwork({ capability: 'translator', pair }))
+  );
+  return steps.some(Boolean);
+};
+
+// Translates directly when a model exists for the pair, otherwise through English
+export const planTranslationRoute = async (
+  provider: TextAIProvider,
+  sourceLanguage: string,
+  targetLanguage: string
+): Promise<TranslationRoute> => {
+  const direct = { sourceLanguage, targetLanguage };
+  if (await provider.languagePairAvailability(direct) !== 'no') {
+    return { kind: 'direct', steps: [direct] };
+  }
+
+  if (sourceLanguage !== PIVOT_LANGUAGE && targetLanguage !== PIVOT_LANGUAGE && sourceLanguage !== 'auto') {
+    const steps = [
+      { sourceLanguage, targetLanguage: PIVOT_LANGUAGE },
+      { sourceLanguage: PIVOT_LANGUAGE, targetLanguage },
+    ];
+    const availabilities = await Promise.all(steps.map(step => provider.languagePairAvailability(step)));
+    if (availabilities.every(available => available !== 'no')) {
+      return { kind: 'pivot', steps };
+    }
+  }
+
+  throw new UnsupportedLanguagePairError(sourceLanguage, targetLanguage);
+};
+
+// The languages at either end of the route, whatever it pivots through
+export const routePair = ({ steps }: TranslationRoute): LanguagePair => ({
+  sourceLanguage: steps[0].sourceLanguage,
+  targetLanguage: steps[steps.length - 1].targetLanguage,
+});
+
+// Glossary terms are masked once for the whole route, so their placeholders
+// survive a pivot through English
+const maskForRoute = (text: string, route: TranslationRoute, glossary?: Glossary): MaskedText =>
+  glossary ? maskGlossaryTerms(text, glossary, routePair(route)) : { text, replacements: [] };
+
+const restore = (text: string, { replacements }: MaskedText): string =>
+  replacements.length > 0 ? restoreGlossaryTerms(text, replacements) : text;
+
+// Memory is keyed by the languages at either end, and an undetected source
+// language can't be keyed at all
+export const memoryFor = (route: TranslationRoute, memory?: TranslationMemory): TranslationMemory | undefined =>
+  routePair(route).sourceLanguage === 'auto' ? undefined : memory;
+
+export const translateAlongRoute = async (
+  provider: TextAIProvider,
+  text: string,
+  route: TranslationRoute,
+  { glossary, memory, onSegment, ...options }: RouteOptions = {}
+): Promise<string> => {
+  const routeMemory = memoryFor(route, memory);
+  const remembered = await routeMemory?.lookup(routePair(route), text);
+  if (remembered !== undefined) {
+    onSegment?.({ source: text, target: remembered, fromMemory: true });
+    return remembered;
+  }
+
+  const masked = maskForRoute(text, route, glossary);
+  let translated = masked.text;
+  for (const step of route.steps) {
+    translated = await provider.translate(translated, step, options);
+  }
+  const target = restore(translated, masked);
+  await routeMemory?.store(routePair(route), text, target);
+  onSegment?.({ source: text, target, fromMemory: false });
+  return target;
+};
+
+// Streams the output of the final step; earlier steps run to completion first
+export async function* streamTranslationRoute(
+  provider: TextAIProvider,
+  text: string,
+  route: TranslationRoute,
+  { glossary, memory, onSegment, ...options }: RouteOptions = {}
+): AsyncGenerator<string> {
+  const routeMemory = memoryFor(route, memory);
+  const remembered = await routeMemory?.lookup(routePair(route), text);
+  if (remembered !== undefined) {
+    onSegment?.({ source: text, target: remembered, fromMemory: true });
+    yield remembered;
+    return;
+  }
+
+  const masked = maskForRoute(text, route, glossary);
+  let intermediate = masked.text;
+  for (const step of route.steps.slice(0, -1)) {
+    intermediate = await provider.translate(intermediate, step, options);
+  }
+  let target = '';
+  for await (const partial of provider.translateStreaming(intermediate, route.steps[route.steps.length - 1], options)) {
+    target = restore(partial, masked);
+    yield target;
+  }
+  await routeMemory?.store(routePair(route), text, target);
+  onSegment?.({ source: text, target, fromMemory: false });
+}
+
+export const routeLanguages = (route: TranslationRoute): string[] => [
+  route.steps[0].sourceLanguage,
+  ...route.steps.map(step => step.targetLanguage),
+];
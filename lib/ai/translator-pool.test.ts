@@ -0,0 +1,88 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createInstancePool } from './translator-pool';
+
+type FakeInstance = { key: string; destroy: () => void };
+
+const createPool = (maxSize: number) => {
+  const destroyed: string[] = [];
+  const create = vi.fn(async (key: string): Promise<FakeInstance> => ({
+    key,
+    destroy: () => destroyed.push(key),
+  }));
+  return { pool: createInstancePool((key: string) => key, create, maxSize), create, destroyed };
+};
+
+// Lets the pool see its instances settle
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('createInstancePool', () => {
+  it('reuses an instance per key', async () => {
+    const { pool, create } = createPool(2);
+    expect(await pool.get('a')).toBe(await pool.get('a'));
+    expect(create).toHaveBeenCalledTimes(1);
+  });
+
+  it('destroys the least recently used idle instance', async () => {
+    const { pool, destroyed } = createPool(2);
+    await pool.get('a');
+    await pool.get('b');
+    await pool.get('a');
+    await pool.get('c');
+    await settle();
+    expect(destroyed).toEqual(['b']);
+    expect(pool.has('a')).toBe(true);
+    expect(pool.has('b')).toBe(false);
+  });
+
+  it('keeps a held instance until it is released', async () => {
+    const { pool, destroyed } = createPool(2);
+    const held = pool.hold('a');
+    await held.instance;
+    await pool.get('b');
+    await pool.get('c');
+    await settle();
+    expect(destroyed).toEqual(['b']);
+    expect(pool.has('a')).toBe(true);
+
+    held.release();
+    await pool.get('d');
+    await settle();
+    expect(destroyed).toEqual(['b', 'a']);
+  });
+
+  it('never evicts an instance that is still being created', async () => {
+    const { pool, destroyed } = createPool(1);
+    const pending = pool.get('a');
+    pool.get('b');
+    expect(pool.has('a')).toBe(true);
+    await pending;
+    await settle();
+    expect(destroyed).toEqual(['a']);
+    expect(pool.has('b')).toBe(true);
+  });
+
+  it('destroys a cleared instance only after its last holder releases it', async () => {
+    const { pool, destroyed } = createPool(2);
+    const first = pool.hold('a');
+    const second = pool.hold('a');
+    await first.instance;
+    pool.clear();
+    first.release();
+    first.release();
+    await settle();
+    expect(destroyed).toEqual([]);
+
+    second.release();
+    await settle();
+    expect(destroyed).toEqual(['a']);
+  });
+
+  it('forgets an instance that failed to be created', async () => {
+    const { pool, create } = createPool(2);
+    create.mockRejectedValueOnce(new Error('failed'));
+    await expect(pool.get('a')).rejects.toThrow('failed');
+    expect(pool.has('a')).toBe(false);
+    await pool.get('a');
+    expect(create).toHaveBeenCalledTimes(2);
+  });
+});
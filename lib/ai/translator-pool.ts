@@ -0,0 +1,120 @@
+import type { LanguagePair, PrepareOptions, TranslatorInstance } from './types';
+
+export const MAX_POOLED_TRANSLATORS = 5;
+
+export type HeldInstance<Instance> = {
+  instance: Promise<Instance>;
+  // Lets the pool evict the instance again; call once when done with it
+  release: () => void;
+};
+
+export type InstancePool<Key, Instance> = {
+  get: (key: Key, options?: PrepareOptions) => Promise<Instance>;
+  // Like get, but the instance is neither evicted nor destroyed until released
+  hold: (key: Key, options?: PrepareOptions) => HeldInstance<Instance>;
+  has: (key: Key) => boolean;
+  clear: () => void;
+};
+
+export type TranslatorPool = InstancePool<LanguagePair, TranslatorInstance>;
+
+type PoolEntry<Instance> = {
+  instance: Promise<Instance>;
+  holders: number;
+  settled: boolean;
+  // Dropped from the pool while held; destroyed once the last holder releases it
+  evicted: boolean;
+};
+
+const pairKey = ({ sourceLanguage, targetLanguage }: LanguagePair) => `${sourceLanguage}->${targetLanguage}`;
+
+// Caches ready instances per key. Once more than `maxSize` are held, the least
+// recently used idle ones are evicted and destroyed. Instances still being
+// created or held by a caller are never evicted, so the pool can briefly grow
+// past `maxSize` while they are busy.
+export const createInstancePool = <Key, Instance extends { destroy?: () => void }>(
+  keyOf: (key: Key) => string,
+  create: (key: Key, options?: PrepareOptions) => Promise<Instance>,
+  maxSize: number
+): InstancePool<Key, Instance> => {
+  // Map iteration order doubles as recency order: oldest first
+  const entries = new Map<string, PoolEntry<Instance>>();
+
+  const destroy = (entry: PoolEntry<Instance>) => {
+    entry.instance.then(instance => instance.destroy?.(), () => {});
+  };
+
+  const evict = (id: string, entry: PoolEntry<Instance>) => {
+    entries.delete(id);
+    entry.evicted = true;
+    if (entry.holders === 0) destroy(entry);
+  };
+
+  const trim = () => {
+    for (const [id, entry] of entries) {
+      if (entries.size <= maxSize) return;
+      if (entry.settled && entry.holders === 0) evict(id, entry);
+    }
+  };
+
+  const entryFor = (key: Key, options?: PrepareOptions): PoolEntry<Instance> => {
+    const id = keyOf(key);
+    let entry = entries.get(id);
+    if (entry) {
+      entries.delete(id);
+    } else {
+      const created: PoolEntry<Instance> = { instance: create(key, options), holders: 0, settled: false, evicted: false };
+      created.instance.then(
+        () => {
+          created.settled = true;
+          trim();
+        },
+        () => {
+          if (entries.get(id) === created) entries.delete(id);
+        }
+      );
+      entry = created;
+    }
+    entries.set(id, entry);
+    return entry;
+  };
+
+  return {
+    get: (key, options) => {
+      const entry = entryFor(key, options);
+      trim();
+      return entry.instance;
+    },
+
+    hold: (key, options) => {
+      const entry = entryFor(key, options);
+      entry.holders += 1;
+      trim();
+
+      let released = false;
+      return {
+        instance: entry.instance,
+        release: () => {
+          if (released) return;
+          released = true;
+          entry.holders -= 1;
+          if (entry.holders > 0) return;
+          if (entry.evicted) destroy(entry);
+          else trim();
+        },
+      };
+    },
+
+    has: (key) => entries.has(keyOf(key)),
+
+    clear: () => {
+      for (const [id, entry] of [...entries]) evict(id, entry);
+    },
+  };
+};
+
+// Caches ready translators per language pair
+export const createTranslatorPool = (
+  create: (pair: LanguagePair, options?: PrepareOptions) => Promise<TranslatorInstance>,
+  maxSize: number = MAX_POOLED_TRANSLATORS
+): TranslatorPool => createInstancePool(pairKey, create, maxSize);
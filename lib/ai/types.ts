@@ -0,0 +1,140 @@
+export type Availability = 'no' | 'readily' | 'after-download';
+
+export type AICapability = 'summarizer' | 'translator' | 'languageDetector';
+
+export type SummarizerType = 'key-points' | 'tl;dr' | 'teaser' | 'headline';
+export type SummarizerLength = 'short' | 'medium' | 'long';
+export type SummarizerFormat = 'markdown' | 'plain-text';
+
+export type SummarizerOptions = {
+  type: SummarizerType;
+  length: SummarizerLength;
+  format: SummarizerFormat;
+  sharedContext?: string;
+};
+
+export interface DownloadProgressEvent extends Event {
+  loaded: number;
+  total: number;
+}
+
+type AbortableOptions = {
+  signal?: AbortSignal;
+};
+
+// The streaming variants are missing from older Chrome builds
+export type SummarizerInstance = {
+  summarize: (text: string, options?: AbortableOptions) => Promise<string>;
+  summarizeStreaming?: (text: string, options?: AbortableOptions) => ReadableStream<string>;
+  ready: Promise<void>;
+  addEventListener: (event: string, handler: EventListener) => void;
+  destroy?: () => void;
+};
+
+export type TranslatorInstance = {
+  translate: (text: string, options?: AbortableOptions) => Promise<string>;
+  translateStreaming?: (text: string, options?: AbortableOptions) => ReadableStream<string>;
+  ready?: Promise<void>;
+  destroy?: () => void;
+};
+
+export type TranslatorCapabilities = {
+  languagePairAvailable: (source: string, target: string) => Promise<Availability>;
+};
+
+export type LanguageDetectorInstance = {
+  detect: (text: string) => Promise<LanguageDetectionResult[]>;
+  ready?: Promise<void>;
+};
+
+export type LanguageDetectionResult = {
+  detectedLanguage: string;
+  confidence: number;
+};
+
+declare global {
+  interface Window {
+    ai?: {
+      summarizer: {
+        capabilities: () => Promise<{ available: Availability }>;
+        create: (options?: {
+          monitor?: (m: EventTarget) => void;
+          sharedContext?: string;
+          type?: SummarizerType;
+          format?: SummarizerFormat;
+          length?: SummarizerLength;
+        }) => Promise<SummarizerInstance>;
+      };
+      translator: {
+        translateText: (text: string, targetLang: string) => Promise<string>;
+        capabilities: () => Promise<TranslatorCapabilities>;
+        create: (options: {
+          sourceLanguage: string;
+          targetLanguage: string;
+          monitor?: (m: EventTarget) => void;
+        }) => Promise<TranslatorInstance>;
+      };
+      languageDetector?: {
+        capabilities: () => Promise<{ available: Availability }>;
+        create: (options?: {
+          monitor?: (m: EventTarget) => void;
+        }) => Promise<LanguageDetectorInstance>;
+      };
+    };
+  }
+}
+
+export type DownloadProgress = {
+  loaded: number;
+  total: number;
+};
+
+export type PrepareOptions = {
+  onDownloadProgress?: (progress: DownloadProgress) => void;
+};
+
+export type ProcessOptions = PrepareOptions & {
+  signal?: AbortSignal;
+};
+
+export type SummarizeOptions = ProcessOptions & {
+  summarizer?: SummarizerOptions;
+};
+
+export type LanguagePair = {
+  sourceLanguage: string;
+  targetLanguage: string;
+};
+
+// A model Chrome downloads separately: one per capability, one per translation pair
+export type AIModel =
+  | { capability: 'summarizer' | 'languageDetector' }
+  | { capability: 'translator'; pair: LanguagePair };
+
+export type CompatibilityResult = {
+  compatible: boolean;
+  message: string | null;
+};
+
+// A backend able to run the three text operations used by the app.
+// Chrome's built-in AI is the default implementation; others can be
+// swapped in through getTextAIProvider().
+export interface TextAIProvider {
+  readonly id: string;
+  checkCompatibility: () => Promise<CompatibilityResult>;
+  isSupported: (capability: AICapability) => boolean;
+  availability: (capability: 'summarizer' | 'languageDetector') => Promise<Availability>;
+  languagePairAvailability: (pair: LanguagePair) => Promise<Availability>;
+  prepareSummarizer: (options?: PrepareOptions & { summarizer?: SummarizerOptions }) => Promise<void>;
+  prepareTranslator: (pair: LanguagePair, options?: PrepareOptions) => Promise<void>;
+  prepareLanguageDetector: (options?: PrepareOptions) => Promise<void>;
+  summarize: (text: string, options?: SummarizeOptions) => Promise<string>;
+  translate: (text: string, pair: LanguagePair, options?: ProcessOptions) => Promise<string>;
+  // Yield the accumulated output so far rather than individual deltas
+  summarizeStreaming: (text: string, options?: SummarizeOptions) => AsyncIterable<string>;
+  translateStreaming: (text: string, pair: LanguagePair, options?: ProcessOptions) => AsyncIterable<string>;
+  detect: (text: string) => Promise<LanguageDetectionResult[]>;
+  // True when the operation cannot run without a connection: its model still
+  // has to be downloaded, or the work happens on a server
+  requiresNetwork: (model: AIModel) => Promise<boolean>;
+}
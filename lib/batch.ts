@@ -0,0 +1,139 @@
+import type { SummarizerOptions, TextAIProvider } from './ai';
+import { streamChunkedTranslation, streamHierarchicalSummary } from './ai/chunked';
+import { planTranslationRoute } from './ai/translation-route';
+import { toCSV } from './csv';
+import type { Glossary } from './glossary';
+import type { TranslationMemory } from './translation-memory';
+import type { Job } from './job-queue';
+
+export const DEFAULT_BATCH_SEPARATOR = '---';
+
+export type BatchItem = {
+  id: string;
+  // Where the text came from: a file name, CSV row or pasted entry
+  label: string;
+  text: string;
+};
+
+export type BatchOptions = {
+  // False when the detector is not set up, e.g. because its download was declined
+  detectLanguage: boolean;
+  // Used instead of detection when set
+  sourceLanguage?: string;
+  targetLanguages: string[];
+  summarize: boolean;
+  summarizer: SummarizerOptions;
+  maxTokens: number;
+  glossary?: Glossary;
+  memory?: TranslationMemory;
+};
+
+export type BatchResult = {
+  detectedLanguage?: string;
+  confidence?: number;
+  translations: Record<string, string>;
+  summary?: string;
+};
+
+// Entries are separated by lines containing only the separator
+export const splitPastedText = (text: string, separator: string = DEFAULT_BATCH_SEPARATOR): string[] => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const entries: string[] = [];
+  let current: string[] = [];
+  for (const line of lines) {
+    if (line.trim() === separator) {
+      entries.push(current.join('\n'));
+      current = [];
+    } else {
+      current.push(line);
+    }
+  }
+  entries.push(current.join('\n'));
+  return entries.map(entry => entry.trim()).filter(Boolean);
+};
+
+// Translators need a real source language, so items without one are failed
+// with this message rather than translated from 'auto'
+export const SOURCE_LANGUAGE_UNKNOWN = 'Source language unknown. Choose the source language and process the item again.';
+
+const lastValue = async (stream: AsyncIterable<string>): Promise<string> => {
+  let value = '';
+  for await (value of stream) {
+    // Only the complete output is kept
+  }
+  return value;
+};
+
+export const processBatchItem = async (
+  provider: TextAIProvider,
+  text: string,
+  options: BatchOptions,
+  signal: AbortSignal
+): Promise<BatchResult> => {
+  const result: BatchResult = { translations: {} };
+
+  if (!options.sourceLanguage && options.detectLanguage) {
+    const [bestResult] = await provider.detect(text).catch(() => []);
+    if (bestResult) {
+      result.detectedLanguage = bestResult.detectedLanguage;
+      result.confidence = bestResult.confidence;
+    }
+  }
+
+  const sourceLanguage = options.sourceLanguage ?? result.detectedLanguage;
+  for (const targetLanguage of options.targetLanguages) {
+    if (!sourceLanguage) throw new Error(SOURCE_LANGUAGE_UNKNOWN);
+    if (targetLanguage === sourceLanguage) {
+      result.translations[targetLanguage] = text;
+      continue;
+    }
+    const route = await planTranslationRoute(provider, sourceLanguage, targetLanguage);
+    result.translations[targetLanguage] = await lastValue(
+      streamChunkedTranslation(provider, text, route, {
+        signal,
+        maxTokens: options.maxTokens,
+        glossary: options.glossary,
+        memory: options.memory,
+      })
+    );
+  }
+
+  if (options.summarize) {
+    result.summary = await lastValue(
+      streamHierarchicalSummary(provider, text, { signal, summarizer: options.summarizer, maxTokens: options.maxTokens })
+    );
+  }
+  return result;
+};
+
+export const batchResultsToCSV = (
+  items: BatchItem[],
+  jobs: Map<string, Job<BatchResult>>,
+  targetLanguages: string[]
+): string => {
+  const header = [
+    'source',
+    'input',
+    'status',
+    'detected_language',
+    'confidence',
+    ...targetLanguages.map(code => `translation_${code}`),
+    'summary',
+    'error',
+  ];
+  const rows = items.map(item => {
+    const job = jobs.get(item.id);
+    const result = job?.result;
+    return [
+      item.label,
+      item.text,
+      job?.status ?? 'queued',
+      result?.detectedLanguage ?? '',
+      result?.confidence === undefined ? '' : result.confidence.toFixed(2),
+      ...targetLanguages.map(code => result?.translations[code] ?? ''),
+      result?.summary ?? '',
+      job?.error ?? '',
+    ];
+  });
+  return toCSV([header, ...rows]);
+};
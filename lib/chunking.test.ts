@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { chunkText, estimateTokens, splitSentences, type TextChunk } from './chunking';
+
+const join = (chunks: TextChunk[]) => chunks.map(chunk => chunk.text + chunk.separator).join('');
+
+const SAMPLES = [
+  '',
+  'One sentence without an ending',
+  'First sentence. Second one!  Third?\nA new line.\n\nA new paragraph.\n',
+  '\n\nLeading blank lines. And trailing ones.\n\n\n',
+  '最初の文です。次の文です！',
+  '   ',
+];
+
+describe('splitSentences', () => {
+  it.each(SAMPLES)('restores %j when its pieces are joined', text => {
+    expect(join(splitSentences(text))).toBe(text);
+  });
+
+  it('splits after sentence endings and at line breaks', () => {
+    expect(splitSentences('One. Two!\nThree')).toEqual([
+      { text: 'One.', separator: ' ' },
+      { text: 'Two!', separator: '\n' },
+      { text: 'Three', separator: '' },
+    ]);
+  });
+});
+
+describe('chunkText', () => {
+  it.each(SAMPLES)('restores %j when its chunks are joined', text => {
+    expect(join(chunkText(text, 5))).toBe(text);
+  });
+
+  it('packs paragraphs together while they fit the budget', () => {
+    const text = 'Short one.\n\nShort two.\n\nShort three.';
+    expect(chunkText(text)).toEqual([{ text, separator: '' }]);
+    expect(chunkText(text, 4).map(chunk => chunk.text)).toEqual(['Short one.', 'Short two.', 'Short three.']);
+  });
+
+  it('breaks an oversized paragraph into sentences, words, then characters', () => {
+    const text = `${'word '.repeat(30)}end. ${'x'.repeat(50)}`;
+    const chunks = chunkText(text, 10);
+    expect(join(chunks)).toBe(text);
+    chunks.forEach(chunk => expect(estimateTokens(chunk.text)).toBeLessThanOrEqual(10));
+  });
+});
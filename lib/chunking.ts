@@ -0,0 +1,82 @@
+export const DEFAULT_CHUNK_TOKEN_BUDGET = 1000;
+
+export type TextChunk = {
+  text: string;
+  // Whitespace that followed the chunk in the original text
+  separator: string;
+};
+
+// Rough estimate that holds for most languages the on-device models support
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+// Splits `text` into pieces ending at `pattern` matches, keeping the matches.
+// A match at the very start stays at the front of the first piece, and text
+// with nothing but matches comes back as a single piece.
+const splitKeeping = (text: string, pattern: RegExp): TextChunk[] => {
+  const pieces: TextChunk[] = [];
+  let leading = '';
+  let lastIndex = 0;
+  for (const match of text.matchAll(pattern)) {
+    const end = match.index ?? 0;
+    if (end > lastIndex) {
+      pieces.push({ text: leading + text.slice(lastIndex, end), separator: match[0] });
+      leading = '';
+    } else if (pieces.length > 0) {
+      pieces[pieces.length - 1].separator += match[0];
+    } else {
+      leading += match[0];
+    }
+    lastIndex = end + match[0].length;
+  }
+  if (lastIndex < text.length) {
+    pieces.push({ text: leading + text.slice(lastIndex), separator: '' });
+  }
+  return pieces.length > 0 ? pieces : [{ text, separator: '' }];
+};
+
+const splitByLength = (text: string, maxChars: number): TextChunk[] => {
+  const pieces: TextChunk[] = [];
+  for (let start = 0; start < text.length; start += maxChars) {
+    pieces.push({ text: text.slice(start, start + maxChars), separator: '' });
+  }
+  return pieces;
+};
+
+// Breaks a piece that is over budget into sentences, then words, then characters
+const splitOversized = (piece: TextChunk, maxTokens: number): TextChunk[] => {
+  if (estimateTokens(piece.text) <= maxTokens) return [piece];
+
+  for (const pattern of [/(?<=[.!?。！？])\s+/g, /\s+/g]) {
+    const parts = splitKeeping(piece.text, pattern);
+    if (parts.length > 1) {
+      parts[parts.length - 1].separator += piece.separator;
+      return parts.flatMap(part => splitOversized(part, maxTokens));
+    }
+  }
+
+  const parts = splitByLength(piece.text, maxTokens * 4);
+  parts[parts.length - 1].separator = piece.separator;
+  return parts;
+};
+
+// One piece per sentence or line. Joining each piece's text and separator restores the input.
+export const splitSentences = (text: string): TextChunk[] =>
+  splitKeeping(text, /(?<=[.!?。！？])\s+|\s*\n\s*/g);
+
+// Splits on paragraphs, then sentences, packing neighbours together while they
+// fit in `maxTokens`. Joining each chunk's text and separator restores the input.
+export const chunkText = (text: string, maxTokens: number = DEFAULT_CHUNK_TOKEN_BUDGET): TextChunk[] => {
+  const pieces = splitKeeping(text, /\n\s*\n/g).flatMap(piece => splitOversized(piece, maxTokens));
+
+  const chunks: TextChunk[] = [];
+  for (const piece of pieces) {
+    const previous = chunks[chunks.length - 1];
+    if (previous && estimateTokens(previous.text + previous.separator + piece.text) <= maxTokens) {
+      previous.text += previous.separator + piece.text;
+      previous.separator = piece.separator;
+    } else {
+      chunks.push({ ...piece });
+    }
+  }
+  return chunks;
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { parseCSV, toCSV, unguardFormula } from './csv';
+
+describe('toCSV', () => {
+  it('quotes fields with commas, quotes and line breaks', () => {
+    expect(toCSV([['a,b', 'say "hi"', 'two\nlines', 'plain']])).toBe('"a,b","say ""hi""","two\nlines",plain\r\n');
+  });
+
+  it.each(['=SUM(A1:A2)', '+1', '-1', '@cmd', '\tx', '\rx'])('guards %j against running as a formula', cell => {
+    const [[written]] = parseCSV(toCSV([[cell, 'x']]));
+    expect(written).toBe(`'${cell}`);
+    expect(unguardFormula(written)).toBe(cell);
+  });
+
+  it('leaves other cells as they are', () => {
+    expect(toCSV([['plain', "'quoted", '1-2']])).toBe("plain,'quoted,1-2\r\n");
+    expect(unguardFormula("'quoted")).toBe("'quoted");
+  });
+});
+
+describe('parseCSV', () => {
+  it('reads back what toCSV wrote', () => {
+    const rows = [['source', 'target'], ['a,b', 'say "hi"'], ['two\r\nlines', '']];
+    expect(parseCSV(toCSV(rows))).toEqual(rows);
+  });
+
+  it('skips a byte order mark and blank rows', () => {
+    expect(parseCSV('﻿a,b\n\n , \nc,d')).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+});
@@ -0,0 +1,59 @@
+// RFC 4180 CSV: quoted fields may contain commas, quotes ("") and newlines
+export const parseCSV = (source: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const text = source.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+};
+
+// Spreadsheets run cells starting with these as formulas; model output and
+// user input must not be able to, so such cells get a leading apostrophe
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const guardFormula = (value: string): string => FORMULA_START.test(value) ? `'${value}` : value;
+
+// Undoes guardFormula for files this app exported and reads back in
+export const unguardFormula = (value: string): string =>
+  value.startsWith("'") && FORMULA_START.test(value.slice(1)) ? value.slice(1) : value;
+
+const escapeField = (cell: string): string => {
+  const value = guardFormula(cell);
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const toCSV = (rows: string[][]): string =>
+  `${rows.map(row => row.map(escapeField).join(',')).join('\r\n')}\r\n`;
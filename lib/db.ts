@@ -0,0 +1,77 @@
+const DB_NAME = 'text-processor';
+const DB_VERSION = 3;
+
+export type StoreName = 'sessions' | 'translationMemory';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Promisified wrapper around an IDBRequest
+export const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available in this browser.'));
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      // Each version only adds stores, so upgrades apply in sequence
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          const sessions = db.createObjectStore('sessions', { keyPath: 'id' });
+          sessions.createIndex('updatedAt', 'updatedAt');
+        }
+        if (event.oldVersion < 2) {
+          const memory = db.createObjectStore('translationMemory', { keyPath: 'id' });
+          memory.createIndex('pair', 'pair');
+        }
+        if (event.oldVersion < 3) {
+          // Lets fuzzy lookups read only units of a similar length
+          request.transaction?.objectStore('translationMemory').createIndex('pairLength', ['pair', 'source.length']);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Runs `operation` against a single object store and resolves with its result
+export const withStore = async <T,>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  return requestToPromise(operation(transaction.objectStore(storeName)));
+};
+
+// Runs `operation` in a single transaction and resolves once it commits, so
+// a batch of writes is applied in full or not at all
+export const withTransaction = async (
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => void
+): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('The transaction was aborted.'));
+  });
+  operation(transaction.objectStore(storeName));
+  return done;
+};
@@ -0,0 +1,63 @@
+import type { LanguageDetectionResult, TextAIProvider } from './ai';
+import { splitSentences, type TextChunk } from './chunking';
+import { languageName } from './languages';
+import type { DetectedLanguage } from './messages';
+
+export const DEFAULT_MIN_DETECTION_CONFIDENCE = 0.5;
+export const MAX_LANGUAGE_CANDIDATES = 3;
+
+export type LanguageDetection = {
+  // Best candidate, if it reached the minimum confidence
+  language?: DetectedLanguage;
+  // Most likely first, whatever their confidence
+  candidates: DetectedLanguage[];
+};
+
+export type LanguageSpan = TextChunk & {
+  language?: DetectedLanguage;
+};
+
+const toDetectedLanguage = ({ detectedLanguage, confidence }: LanguageDetectionResult): DetectedLanguage => ({
+  name: languageName(detectedLanguage),
+  code: detectedLanguage,
+  confidence,
+});
+
+export const detectLanguages = async (
+  provider: TextAIProvider,
+  text: string,
+  minConfidence: number = DEFAULT_MIN_DETECTION_CONFIDENCE
+): Promise<LanguageDetection> => {
+  const results = await provider.detect(text);
+  const candidates = [...results]
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, MAX_LANGUAGE_CANDIDATES)
+    .map(toDetectedLanguage);
+  const [best] = candidates;
+  return { language: best && best.confidence >= minConfidence ? best : undefined, candidates };
+};
+
+// Detects each sentence on its own and merges neighbours in the same language.
+// Sentences too short to call confidently join the span before them.
+export const detectLanguageSpans = async (
+  provider: TextAIProvider,
+  text: string,
+  minConfidence: number = DEFAULT_MIN_DETECTION_CONFIDENCE
+): Promise<LanguageSpan[]> => {
+  const spans: LanguageSpan[] = [];
+  for (const sentence of splitSentences(text)) {
+    const { language } = await detectLanguages(provider, sentence.text, minConfidence)
+      .catch((): LanguageDetection => ({ candidates: [] }));
+    const previous = spans[spans.length - 1];
+    if (previous && (!language || previous.language?.code === language.code)) {
+      previous.text += previous.separator + sentence.text;
+      previous.separator = sentence.separator;
+    } else {
+      spans.push({ ...sentence, language });
+    }
+  }
+  return spans;
+};
+
+export const isMixedLanguage = (spans: LanguageSpan[]): boolean =>
+  new Set(spans.map(span => span.language?.code).filter(Boolean)).size > 1;
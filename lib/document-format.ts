@@ -0,0 +1,226 @@
+import type { Nodes, PhrasingContent } from 'mdast';
+import { parseMarkdown } from './markdown';
+
+export type DocumentFormat = 'markdown' | 'html';
+
+// A document split into text to translate and everything around it. Markup
+// inside a translatable piece is swapped for placeholders listed in `markup`.
+export type DocumentPiece =
+  | { translate: false; text: string }
+  | { translate: true; text: string; markup: string[] };
+
+const FILE_FORMATS: Record<string, DocumentFormat> = {
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.html': 'html',
+  '.htm': 'html',
+};
+
+// Pasted text only counts as a document when the markup is unmistakable: a
+// tag that is also closed, or markdown syntax in more than one place. Plain
+// text is chunked on the token budget instead, so a stray asterisk doesn't
+// change how it is translated.
+const HTML_HINT = /<(p|div|span|a|h[1-6]|ul|ol|li|table|tr|td|strong|em|b|i|section|article)\b[^>]*>[\s\S]*?<\/\1\s*>/i;
+const MARKDOWN_HINT = /^#{1,6}\s|^\s*[-*+]\s+\S|^\s*\d+\.\s+\S|^```|^>\s|\[[^\]\n]+\]\([^)\s]+\)|\*\*[^*\n]+\*\*|`[^`\n]+`/gm;
+const MARKDOWN_HINTS_NEEDED = 2;
+
+// By file extension when there is one, otherwise by looking for tags or
+// markdown syntax. Undefined means plain text.
+export const detectDocumentFormat = (text: string, fileName?: string): DocumentFormat | undefined => {
+  const extension = fileName?.match(/\.[^.]+$/)?.[0].toLowerCase();
+  if (extension && extension in FILE_FORMATS) return FILE_FORMATS[extension];
+  if (fileName && extension !== '.txt') return undefined;
+  if (HTML_HINT.test(text)) return 'html';
+  if ((text.match(MARKDOWN_HINT)?.length ?? 0) >= MARKDOWN_HINTS_NEEDED) return 'markdown';
+  return undefined;
+};
+
+const markupPlaceholder = (index: number): string => `⟦m${index}⟧`;
+const MARKUP_PLACEHOLDER = /⟦\s*m\s*(\d+)\s*⟧/gi;
+
+// Whether a piece still holds markup placeholders, which mean nothing outside this document
+export const hasMarkupPlaceholders = (text: string): boolean => /⟦\s*m\s*\d+\s*⟧/i.test(text);
+
+// Markup the translator dropped is appended, so closing tags and delimiters
+// still balance
+export const restoreMarkup = (text: string, markup: string[]): string => {
+  const used = new Set<number>();
+  const restored = text.replace(MARKUP_PLACEHOLDER, (match, index: string) => {
+    used.add(Number(index));
+    return markup[Number(index)] ?? match;
+  });
+  return restored + markup.filter((_, index) => !used.has(index)).join('');
+};
+
+// Collects a piece's text, with markup turned into placeholders
+const createPieceBuilder = () => {
+  let text = '';
+  const markup: string[] = [];
+  return {
+    text: (value: string) => {
+      text += value;
+    },
+    markup: (value: string) => {
+      if (!value) return;
+      text += markupPlaceholder(markup.length);
+      markup.push(value);
+    },
+    build: (): DocumentPiece[] => {
+      // Markup and whitespace at either end stay outside the translation
+      const leading: string[] = [];
+      const trailing: string[] = [];
+      let body = text;
+      const edge = /^(\s+|⟦m(\d+)⟧)/;
+      const tail = /(\s+|⟦m(\d+)⟧)$/;
+      for (let match = body.match(edge); match; match = body.match(edge)) {
+        leading.push(match[2] === undefined ? match[1] : markup[Number(match[2])]);
+        body = body.slice(match[0].length);
+      }
+      for (let match = body.match(tail); match; match = body.match(tail)) {
+        trailing.unshift(match[2] === undefined ? match[1] : markup[Number(match[2])]);
+        body = body.slice(0, -match[0].length);
+      }
+      if (!/[\p{L}\p{N}]/u.test(body)) return [{ translate: false, text: restoreMarkup(text, markup) }];
+      // Markup moved outside is blanked so restoreMarkup doesn't add it back
+      const inBody = new Set([...body.matchAll(MARKUP_PLACEHOLDER)].map(match => Number(match[1])));
+      return [
+        { translate: false, text: leading.join('') },
+        { translate: true, text: body, markup: markup.map((value, index) => inBody.has(index) ? value : '') },
+        { translate: false, text: trailing.join('') },
+      ];
+    },
+  };
+};
+
+type Positioned = { position?: { start: { offset?: number }; end: { offset?: number } } };
+
+const startOf = (node: Positioned): number => node.position?.start.offset ?? 0;
+const endOf = (node: Positioned): number => node.position?.end.offset ?? 0;
+
+// Line breaks inside a paragraph carry indentation and blockquote markers
+// that must survive untranslated
+const addMarkdownText = (builder: ReturnType<typeof createPieceBuilder>, raw: string) => {
+  let position = 0;
+  for (const match of raw.matchAll(/\n[ \t>]*/g)) {
+    builder.text(raw.slice(position, match.index));
+    builder.markup(match[0]);
+    position = match.index + match[0].length;
+  }
+  builder.text(raw.slice(position));
+};
+
+const addPhrasing = (builder: ReturnType<typeof createPieceBuilder>, source: string, nodes: PhrasingContent[]) => {
+  for (const node of nodes) {
+    const raw = source.slice(startOf(node), endOf(node));
+    if (node.type === 'text') {
+      addMarkdownText(builder, raw);
+    } else if ('children' in node && node.children.length > 0) {
+      // Emphasis, strong, delete and links: only the delimiters and URLs are markup
+      const children = node.children as PhrasingContent[];
+      builder.markup(source.slice(startOf(node), startOf(children[0])));
+      addPhrasing(builder, source, children);
+      builder.markup(source.slice(endOf(children[children.length - 1]), endOf(node)));
+    } else {
+      // Inline code, inline HTML, images, breaks and references stay as they are
+      builder.markup(raw);
+    }
+  }
+};
+
+const TRANSLATABLE_BLOCKS = new Set(['paragraph', 'heading', 'tableCell']);
+
+// Only paragraphs, headings and table cells are translated; code blocks,
+// HTML blocks, link definitions and everything else are copied through
+export const splitMarkdownDocument = (source: string): DocumentPiece[] => {
+  const pieces: DocumentPiece[] = [];
+  let position = 0;
+
+  const visit = (node: Nodes) => {
+    if (TRANSLATABLE_BLOCKS.has(node.type) && 'children' in node && node.children.length > 0) {
+      const children = node.children as PhrasingContent[];
+      const start = startOf(children[0]);
+      const end = endOf(children[children.length - 1]);
+      pieces.push({ translate: false, text: source.slice(position, start) });
+      const builder = createPieceBuilder();
+      addPhrasing(builder, source, children);
+      pieces.push(...builder.build());
+      position = end;
+    } else if ('children' in node) {
+      node.children.forEach(child => visit(child as Nodes));
+    }
+  };
+
+  visit(parseMarkdown(source));
+  pieces.push({ translate: false, text: source.slice(position) });
+  return pieces.filter(piece => piece.translate || piece.text);
+};
+
+// Elements whose content is never translated
+const RAW_ELEMENTS = new Set(['script', 'style', 'pre', 'code', 'kbd', 'samp', 'var', 'textarea', 'template', 'svg', 'math']);
+
+// Elements that end one run of text and start another
+const BLOCK_ELEMENTS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'caption', 'dd', 'details', 'dialog', 'div', 'dl', 'dt',
+  'fieldset', 'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'head', 'header',
+  'hr', 'html', 'legend', 'li', 'main', 'nav', 'ol', 'option', 'p', 'pre', 'script', 'section', 'select', 'style',
+  'summary', 'table', 'tbody', 'td', 'template', 'tfoot', 'th', 'thead', 'title', 'tr', 'ul', 'textarea',
+  'svg', 'math',
+]);
+
+const HTML_TOKEN = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<\?[\s\S]*?\?>|<\/?([a-zA-Z][\w:-]*)(?:[^>"']|"[^"]*"|'[^']*')*>/g;
+const HTML_ENTITY = /&(?:#\d+|#x[\da-f]+|\w+);/gi;
+
+// Tags, attributes, comments and entities are kept byte for byte; text runs
+// between block-level tags are translated with their inline tags as placeholders
+export const splitHtmlDocument = (source: string): DocumentPiece[] => {
+  const pieces: DocumentPiece[] = [];
+  let builder = createPieceBuilder();
+  const flush = () => {
+    pieces.push(...builder.build());
+    builder = createPieceBuilder();
+  };
+  const addText = (text: string) => {
+    let position = 0;
+    for (const match of text.matchAll(HTML_ENTITY)) {
+      builder.text(text.slice(position, match.index));
+      // Spaces pass through as text; other entities are kept as written
+      if (/^&(nbsp|#160|#xa0);$/i.test(match[0])) builder.text(match[0]);
+      else builder.markup(match[0]);
+      position = match.index + match[0].length;
+    }
+    builder.text(text.slice(position));
+  };
+
+  let position = 0;
+  HTML_TOKEN.lastIndex = 0;
+  for (let match = HTML_TOKEN.exec(source); match; match = HTML_TOKEN.exec(source)) {
+    addText(source.slice(position, match.index));
+    let token = match[0];
+    const name = match[1]?.toLowerCase();
+    const isOpening = name !== undefined && !token.startsWith('</') && !token.endsWith('/>');
+
+    // Skip to the matching close tag, leaving the content untouched
+    if (isOpening && RAW_ELEMENTS.has(name)) {
+      const close = new RegExp(`</${name}\\s*>`, 'ig');
+      close.lastIndex = HTML_TOKEN.lastIndex;
+      const end = close.exec(source);
+      const endIndex = end ? end.index + end[0].length : source.length;
+      token = source.slice(match.index, endIndex);
+      HTML_TOKEN.lastIndex = endIndex;
+    }
+
+    if (name === undefined || BLOCK_ELEMENTS.has(name)) {
+      flush();
+      pieces.push({ translate: false, text: token });
+    } else {
+      builder.markup(token);
+    }
+    position = HTML_TOKEN.lastIndex;
+  }
+  addText(source.slice(position));
+  flush();
+  return pieces.filter(piece => piece.translate || piece.text);
+};
+
+export const splitDocument = (source: string, format: DocumentFormat): DocumentPiece[] =>
+  format === 'html' ? splitHtmlDocument(source) : splitMarkdownDocument(source);
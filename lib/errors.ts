@@ -0,0 +1,99 @@
+import { UnsupportedLanguagePairError } from './ai/translation-route';
+import { isOnline } from './network';
+
+export type ErrorCode =
+  | 'unsupported-browser'
+  | 'flag-disabled'
+  | 'model-unavailable'
+  | 'download-failed'
+  | 'quota-exceeded'
+  | 'unsupported-language-pair'
+  | 'network'
+  | 'unknown';
+
+// What the user can do about an error, shown as buttons next to it
+export type RecoveryAction = 'retry' | 'open-model-settings' | 'open-settings' | 'try-server-fallback';
+
+// Plain data so it can be stored on a message and saved with the conversation
+export type ErrorInfo = {
+  code: ErrorCode;
+  message: string;
+  // The operation that failed, so it can be run again
+  operation?: 'summarize' | 'translate';
+  // Set instead when a recipe failed, so the whole recipe runs again
+  recipeId?: string;
+};
+
+// Thrown where the cause is known, so it does not have to be guessed from the message
+export class AppError extends Error {
+  constructor(readonly code: ErrorCode, message: string) {
+    super(message);
+    this.name = 'AppError';
+  }
+}
+
+export const ERROR_TITLES: Record<ErrorCode, string> = {
+  'unsupported-browser': 'Browser not supported',
+  'flag-disabled': 'Built-in AI is turned off',
+  'model-unavailable': 'Model not available',
+  'download-failed': 'Model download failed',
+  'quota-exceeded': 'Limit exceeded',
+  'unsupported-language-pair': 'Language pair not supported',
+  'network': 'Network problem',
+  'unknown': 'Something went wrong',
+};
+
+const RECOVERY_ACTIONS: Record<ErrorCode, RecoveryAction[]> = {
+  'unsupported-browser': ['try-server-fallback'],
+  'flag-disabled': ['try-server-fallback'],
+  'model-unavailable': ['open-model-settings', 'try-server-fallback'],
+  'download-failed': ['retry', 'open-model-settings'],
+  // Usually the input is too long for the model; a smaller chunk size helps
+  'quota-exceeded': ['open-settings', 'try-server-fallback'],
+  'unsupported-language-pair': ['try-server-fallback'],
+  'network': ['retry'],
+  'unknown': ['retry'],
+};
+
+// Actions that need an operation to run again are left out when there is none
+export const recoveryActions = (error: ErrorInfo, { canUseServer }: { canUseServer: boolean }): RecoveryAction[] =>
+  RECOVERY_ACTIONS[error.code].filter(action => {
+    const canRunAgain = !!error.operation || !!error.recipeId;
+    if (action === 'retry') return canRunAgain;
+    if (action === 'try-server-fallback') return canRunAgain && canUseServer;
+    return true;
+  });
+
+// Browsers and models report failures in their own words; these patterns
+// cover the messages seen from Chrome, the server routes and this app
+const MESSAGE_CODES: Array<[RegExp, ErrorCode]> = [
+  [/quota|too large|too long|storage is full/i, 'quota-exceeded'],
+  [/not supported yet|language pair/i, 'unsupported-language-pair'],
+  [/browser (on .+ )?is not supported|is not supported\. The AI features require/i, 'unsupported-browser'],
+  [/chrome:\/\/flags|flags are enabled|experimental AI features/i, 'flag-disabled'],
+  [/download/i, 'download-failed'],
+  [/network|offline|failed to fetch|connection/i, 'network'],
+  [/not available|not usable|unavailable/i, 'model-unavailable'],
+];
+
+export const errorCodeFor = (error: unknown): ErrorCode => {
+  if (error instanceof AppError) return error.code;
+  if (error instanceof UnsupportedLanguagePairError) return 'unsupported-language-pair';
+  if (error instanceof DOMException && error.name === 'QuotaExceededError') return 'quota-exceeded';
+  if (error instanceof DOMException && error.name === 'NetworkError') return 'network';
+
+  const message = error instanceof Error ? error.message : String(error ?? '');
+  const match = MESSAGE_CODES.find(([pattern]) => pattern.test(message));
+  if (match) return match[1];
+  return isOnline() ? 'unknown' : 'network';
+};
+
+// Accepts thrown errors and the plain messages components report
+export const toErrorInfo = (
+  error: unknown,
+  fallbackMessage: string = 'An error occurred during processing',
+  operation?: ErrorInfo['operation']
+): ErrorInfo => {
+  const message = typeof error === 'string' ? error : error instanceof Error ? error.message : '';
+  return { code: errorCodeFor(error), message: message || fallbackMessage, operation };
+};
@@ -0,0 +1,115 @@
+import type { Message } from './messages';
+import { serializeSubtitles } from './subtitles';
+
+export type ExportFormat = 'markdown' | 'json' | 'txt' | 'subtitles';
+
+export const EXPORT_SCHEMA_URL = '/schemas/conversation-export.schema.json';
+export const EXPORT_SCHEMA_VERSION = 1;
+
+export type ConversationExport = {
+  $schema: string;
+  version: number;
+  exportedAt: string;
+  title: string;
+  messages: Message[];
+};
+
+type ExportFile = {
+  fileName: string;
+  content: string;
+  mimeType: string;
+};
+
+// Labels a message by the operation that produced it
+export const describeMessageOperation = (message: Message): string => {
+  if (message.type === 'input') return message.fileName ? `Input: ${message.fileName}` : 'Input';
+  if (message.operation?.type === 'summarize') return 'Summary';
+  if (message.translationRoute) {
+    const { steps } = message.translationRoute;
+    return `Translation (${steps[0].sourceLanguage} → ${steps[steps.length - 1].targetLanguage})`;
+  }
+  if (message.detectedLanguage) return 'Language detection';
+  return 'Output';
+};
+
+// The welcome message and in-flight output are not part of the record
+const exportableMessages = (messages: Message[]): Message[] =>
+  messages.filter(message => message.id !== 'welcome' && !message.isStreaming);
+
+// Failures are shown in the app but are not part of the exported record either
+const toSerializableMessage = (message: Message): Message => {
+  const serializable = { ...message };
+  delete serializable.isStreaming;
+  delete serializable.progress;
+  delete serializable.error;
+  return serializable;
+};
+
+const slugify = (text: string): string =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'conversation';
+
+const toMarkdown = (title: string, messages: Message[]): string => {
+  const sections = messages.map(message => {
+    const details = [
+      message.detectedLanguage && (message.languageOverridden
+        ? `_Language: ${message.detectedLanguage.name} (set manually)_`
+        : `_Language: ${message.detectedLanguage.name} (${Math.round(message.detectedLanguage.confidence * 100)}% confidence)_`),
+    ].filter(Boolean);
+    return [`## ${describeMessageOperation(message)}`, message.text, ...details].join('\n\n');
+  });
+  return `# ${title}\n\n${sections.join('\n\n')}\n`;
+};
+
+const toJSON = (title: string, messages: Message[]): string => {
+  const data: ConversationExport = {
+    $schema: EXPORT_SCHEMA_URL,
+    version: EXPORT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    title,
+    messages: messages.map(toSerializableMessage),
+  };
+  return `${JSON.stringify(data, null, 2)}\n`;
+};
+
+const toPlainText = (messages: Message[]): string =>
+  `${messages.map(message => message.text).join('\n\n')}\n`;
+
+// Messages that can be exported as a subtitle file
+export const subtitleMessages = (messages: Message[]): Message[] =>
+  exportableMessages(messages).filter(message => message.subtitles);
+
+export const buildExport = (format: ExportFormat, title: string, messages: Message[]): ExportFile => {
+  const included = exportableMessages(messages);
+  const baseName = slugify(title);
+
+  switch (format) {
+    case 'markdown':
+      return { fileName: `${baseName}.md`, content: toMarkdown(title, included), mimeType: 'text/markdown' };
+    case 'json':
+      return { fileName: `${baseName}.json`, content: toJSON(title, included), mimeType: 'application/json' };
+    case 'txt':
+      return { fileName: `${baseName}.txt`, content: toPlainText(included), mimeType: 'text/plain' };
+    case 'subtitles': {
+      // Prefer the latest translation of a subtitle input
+      const message = subtitleMessages(included).pop();
+      if (!message?.subtitles) {
+        throw new Error('There is no subtitle file to export.');
+      }
+      const extension = message.subtitles.format;
+      return {
+        fileName: message.fileName ?? `${baseName}.${extension}`,
+        content: serializeSubtitles(message.subtitles),
+        mimeType: extension === 'vtt' ? 'text/vtt' : 'application/x-subrip',
+      };
+    }
+  }
+};
+
+export const downloadFile = ({ fileName, content, mimeType }: ExportFile): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
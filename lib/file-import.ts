@@ -0,0 +1,68 @@
+import {
+  isSubtitleFileName,
+  parseSubtitles,
+  subtitlesToPlainText,
+  type SubtitleDocument,
+} from './subtitles';
+
+export const SUPPORTED_FILE_EXTENSIONS = ['.txt', '.md', '.html', '.htm', '.docx', '.pdf', '.srt', '.vtt'];
+
+export type ImportedFile = {
+  fileName: string;
+  text: string;
+  subtitles?: SubtitleDocument;
+};
+
+const getExtension = (fileName: string): string => {
+  const dotIndex = fileName.lastIndexOf('.');
+  return dotIndex === -1 ? '' : fileName.slice(dotIndex).toLowerCase();
+};
+
+const extractDocxText = async (file: File): Promise<string> => {
+  const mammoth = await import('mammoth');
+  const { value } = await mammoth.extractRawText({ arrayBuffer: await file.arrayBuffer() });
+  return value;
+};
+
+const extractPdfText = async (file: File): Promise<string> => {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const pages: string[] = [];
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+    pages.push(content.items
+      .map(item => 'str' in item ? item.str + (item.hasEOL ? '\n' : '') : '')
+      .join(''));
+  }
+  return pages.join('\n\n');
+};
+
+// Extracts text in the browser; nothing is uploaded
+export const importFile = async (file: File): Promise<ImportedFile> => {
+  const extension = getExtension(file.name);
+  if (!SUPPORTED_FILE_EXTENSIONS.includes(extension)) {
+    throw new Error(`${file.name}: unsupported file type. Supported types are ${SUPPORTED_FILE_EXTENSIONS.join(', ')}.`);
+  }
+
+  if (isSubtitleFileName(file.name)) {
+    const subtitles = parseSubtitles(await file.text(), extension === '.vtt' ? 'vtt' : 'srt');
+    return { fileName: file.name, text: subtitlesToPlainText(subtitles), subtitles };
+  }
+
+  let text: string;
+  if (extension === '.docx') {
+    text = await extractDocxText(file);
+  } else if (extension === '.pdf') {
+    text = await extractPdfText(file);
+  } else {
+    text = await file.text();
+  }
+
+  if (!text.trim()) {
+    throw new Error(`${file.name}: no text could be extracted from this file.`);
+  }
+  return { fileName: file.name, text: text.trim() };
+};
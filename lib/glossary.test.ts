@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { maskGlossaryTerms, restoreGlossaryTerms, type Glossary } from './glossary';
+
+const EN_ES = { sourceLanguage: 'en', targetLanguage: 'es' };
+
+const GLOSSARY: Glossary = {
+  terms: [
+    { ...EN_ES, source: 'pull request', target: 'solicitud de cambios' },
+    { ...EN_ES, source: 'pull', target: 'extraer' },
+    { sourceLanguage: 'en', targetLanguage: 'fr', source: 'branch', target: 'branche' },
+  ],
+  protectedTerms: ['GitHub'],
+};
+
+describe('maskGlossaryTerms', () => {
+  it('swaps terms for placeholders, longest first', () => {
+    expect(maskGlossaryTerms('Open a Pull Request on GitHub, then pull.', GLOSSARY, EN_ES)).toEqual({
+      text: 'Open a ⟦0⟧ on ⟦1⟧, then ⟦2⟧.',
+      replacements: ['solicitud de cambios', 'GitHub', 'extraer'],
+    });
+  });
+
+  it('leaves terms for other pairs, inexact protected terms and parts of words alone', () => {
+    const text = 'A branch on github pulls.';
+    expect(maskGlossaryTerms(text, GLOSSARY, EN_ES)).toEqual({ text, replacements: [] });
+  });
+});
+
+describe('restoreGlossaryTerms', () => {
+  it('restores what was masked, including placeholders the translator spaced out', () => {
+    const { replacements } = maskGlossaryTerms('Pull from GitHub', GLOSSARY, EN_ES);
+    expect(restoreGlossaryTerms('⟦ 0 ⟧ desde ⟦1⟧', replacements)).toBe('extraer desde GitHub');
+  });
+
+  it('keeps unknown placeholders and hides one cut off at the end of a stream', () => {
+    expect(restoreGlossaryTerms('⟦5⟧ y ⟦0', ['extraer'])).toBe('⟦5⟧ y ');
+  });
+});
@@ -0,0 +1,244 @@
+import type { LanguagePair } from './ai/types';
+import { parseCSV, toCSV, unguardFormula } from './csv';
+import { toTranslatorLanguage } from './languages';
+import { loadSetting, saveSetting } from './settings';
+import { escapeXML, parseXML } from './xml';
+
+// A fixed translation of `source` for one language pair
+export type GlossaryTerm = LanguagePair & {
+  source: string;
+  target: string;
+};
+
+export type Glossary = {
+  terms: GlossaryTerm[];
+  // Left exactly as written in every language, e.g. product names
+  protectedTerms: string[];
+};
+
+export const EMPTY_GLOSSARY: Glossary = { terms: [], protectedTerms: [] };
+
+export const loadGlossary = (): Glossary => loadSetting('glossary', EMPTY_GLOSSARY);
+
+export const saveGlossary = (glossary: Glossary): void => saveSetting('glossary', glossary);
+
+const termKey = ({ sourceLanguage, targetLanguage, source }: GlossaryTerm): string =>
+  `${sourceLanguage}:${targetLanguage}:${source.toLowerCase()}`;
+
+// Entries from `incoming` replace existing terms for the same pair and source
+export const mergeGlossaries = (current: Glossary, incoming: Glossary): Glossary => {
+  const terms = new Map(current.terms.map(term => [termKey(term), term]));
+  incoming.terms.forEach(term => terms.set(termKey(term), term));
+  return {
+    terms: [...terms.values()],
+    protectedTerms: [...new Set([...current.protectedTerms, ...incoming.protectedTerms])],
+  };
+};
+
+export const termsForPair = (glossary: Glossary, { sourceLanguage, targetLanguage }: LanguagePair): GlossaryTerm[] =>
+  glossary.terms.filter(term => term.sourceLanguage === sourceLanguage && term.targetLanguage === targetLanguage);
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Scripts written without spaces have no word boundaries to check
+const BOUNDED_CHAR = /^[\p{L}\p{N}]$/u;
+const UNSPACED_SCRIPT = /^[\p{sc=Han}\p{sc=Hiragana}\p{sc=Katakana}\p{sc=Thai}]$/u;
+const needsBoundary = (char: string): boolean => BOUNDED_CHAR.test(char) && !UNSPACED_SCRIPT.test(char);
+
+// Whole-word matches only, so "Go" is not found inside "Google"
+const termPattern = (term: string): string =>
+  `${needsBoundary(term[0]) ? '(?<![\\p{L}\\p{N}])' : ''}${escapeRegExp(term)}${needsBoundary(term[term.length - 1]) ? '(?![\\p{L}\\p{N}])' : ''}`;
+
+type Replacement = {
+  pattern: string;
+  flags: string;
+  output: string | ((match: string) => string);
+};
+
+// Longest first, so "Acme Cloud" wins over "Acme"
+const findMatches = (text: string, replacements: Replacement[]) => {
+  const matches: Array<{ start: number; end: number; output: string }> = [];
+  const sorted = [...replacements].sort((a, b) => b.pattern.length - a.pattern.length);
+  for (const { pattern, flags, output } of sorted) {
+    for (const match of text.matchAll(new RegExp(pattern, `g${flags}`))) {
+      const start = match.index;
+      const end = start + match[0].length;
+      if (matches.some(other => start < other.end && end > other.start)) continue;
+      matches.push({ start, end, output: typeof output === 'string' ? output : output(match[0]) });
+    }
+  }
+  return matches.sort((a, b) => a.start - b.start);
+};
+
+export type MaskedText = {
+  text: string;
+  // What each placeholder becomes in the translation, by index
+  replacements: string[];
+};
+
+const placeholder = (index: number): string => `⟦${index}⟧`;
+// Translators sometimes add spaces inside the brackets
+const PLACEHOLDER = /⟦\s*(\d+)\s*⟧/g;
+const PARTIAL_PLACEHOLDER = /⟦[^⟧]*$/;
+
+// Swaps glossary terms and protected terms for placeholders the translator
+// leaves alone. Glossary terms match case-insensitively; protected terms must
+// match exactly.
+export const maskGlossaryTerms = (text: string, glossary: Glossary, pair: LanguagePair): MaskedText => {
+  const matches = findMatches(text, [
+    ...termsForPair(glossary, pair).map(term => ({ pattern: termPattern(term.source), flags: 'iu', output: term.target })),
+    ...glossary.protectedTerms.map(term => ({ pattern: termPattern(term), flags: 'u', output: (match: string) => match })),
+  ]);
+
+  let masked = '';
+  let position = 0;
+  matches.forEach(({ start, end }, index) => {
+    masked += text.slice(position, start) + placeholder(index);
+    position = end;
+  });
+  return { text: masked + text.slice(position), replacements: matches.map(({ output }) => output) };
+};
+
+// Works on partial streamed output too: a placeholder cut off at the end is
+// hidden until the rest of it arrives
+export const restoreGlossaryTerms = (text: string, replacements: string[]): string =>
+  text
+    .replace(PLACEHOLDER, (match, index: string) => replacements[Number(index)] ?? match)
+    .replace(PARTIAL_PLACEHOLDER, '');
+
+// Target-side strings worth highlighting in a translation into `pair.targetLanguage`
+export const glossaryOutputTerms = (glossary: Glossary, pair: LanguagePair, translation: string): string[] =>
+  [...new Set([...termsForPair(glossary, pair).map(term => term.target), ...glossary.protectedTerms])]
+    .filter(term => term && translation.includes(term));
+
+export type HighlightSegment = {
+  text: string;
+  highlighted: boolean;
+};
+
+export const highlightTerms = (text: string, terms: string[]): HighlightSegment[] => {
+  const matches = findMatches(text, terms.map(term => ({ pattern: escapeRegExp(term), flags: 'u', output: term })));
+  const segments: HighlightSegment[] = [];
+  let position = 0;
+  for (const { start, end } of matches) {
+    if (start > position) segments.push({ text: text.slice(position, start), highlighted: false });
+    segments.push({ text: text.slice(start, end), highlighted: true });
+    position = end;
+  }
+  if (position < text.length) segments.push({ text: text.slice(position), highlighted: false });
+  return segments;
+};
+
+// CSV and TBX import/export
+
+const CSV_COLUMNS = ['source_language', 'target_language', 'source', 'target', 'do_not_translate'];
+
+export const glossaryToCSV = (glossary: Glossary): string => toCSV([
+  CSV_COLUMNS,
+  ...glossary.terms.map(term => [term.sourceLanguage, term.targetLanguage, term.source, term.target, '']),
+  ...glossary.protectedTerms.map(term => ['', '', term, '', 'yes']),
+]);
+
+// Rows marked do_not_translate, or without languages, become protected terms
+export const glossaryFromCSV = (source: string): Glossary => {
+  const [header, ...rows] = parseCSV(source);
+  const columns = (header ?? []).map(cell => cell.trim().toLowerCase());
+  const column = (row: string[], name: string): string => unguardFormula(row[columns.indexOf(name)]?.trim() ?? '');
+  if (!columns.includes('source')) {
+    throw new Error(`The CSV needs a header row with the columns ${CSV_COLUMNS.join(', ')}.`);
+  }
+
+  const glossary: Glossary = { terms: [], protectedTerms: [] };
+  for (const row of rows) {
+    const source = column(row, 'source');
+    const sourceLanguage = toTranslatorLanguage(column(row, 'source_language'));
+    const targetLanguage = toTranslatorLanguage(column(row, 'target_language'));
+    const target = column(row, 'target');
+    if (!source) continue;
+    if (/^(yes|true|1|x)$/i.test(column(row, 'do_not_translate')) || !sourceLanguage || !targetLanguage || !target) {
+      glossary.protectedTerms.push(source);
+    } else {
+      glossary.terms.push({ sourceLanguage, targetLanguage, source, target });
+    }
+  }
+  return mergeGlossaries(EMPTY_GLOSSARY, glossary);
+};
+
+const DO_NOT_TRANSLATE = 'do-not-translate';
+
+const tbxLangSet = (language: string, term: string): string =>
+  `        <langSet xml:lang="${escapeXML(language)}">\n          <tig><term>${escapeXML(term)}</term></tig>\n        </langSet>`;
+
+// TBX-Basic: one termEntry per term, with a langSet per language
+export const glossaryToTBX = (glossary: Glossary): string => {
+  const entries = [
+    ...glossary.terms.map(term => [
+      tbxLangSet(term.sourceLanguage, term.source),
+      tbxLangSet(term.targetLanguage, term.target),
+    ]),
+    ...glossary.protectedTerms.map(term => [
+      `        <note>${DO_NOT_TRANSLATE}</note>`,
+      tbxLangSet('und', term),
+    ]),
+  ];
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<martif type="TBX-Basic" xml:lang="en">',
+    '  <martifHeader>',
+    '    <fileDesc><sourceDesc><p>Text Processor glossary</p></sourceDesc></fileDesc>',
+    '  </martifHeader>',
+    '  <text>',
+    '    <body>',
+    ...entries.map((lines, index) => `      <termEntry id="t${index + 1}">\n${lines.join('\n')}\n      </termEntry>`),
+    '    </body>',
+    '  </text>',
+    '</martif>',
+    '',
+  ].join('\n');
+};
+
+// Reads TBX 2 (termEntry/langSet) and TBX 3 (conceptEntry/langSec). The first
+// language of an entry is the source; every other language becomes a target.
+export const glossaryFromTBX = (source: string): Glossary => {
+  const document = parseXML(source, 'TBX file');
+
+  const glossary: Glossary = { terms: [], protectedTerms: [] };
+  const entries = [...document.querySelectorAll('termEntry, conceptEntry')];
+  for (const entry of entries) {
+    const languages = [...entry.querySelectorAll('langSet, langSec')]
+      .map(langSet => ({
+        language: toTranslatorLanguage(langSet.getAttribute('xml:lang') ?? ''),
+        term: langSet.querySelector('term')?.textContent?.trim() ?? '',
+      }))
+      .filter(({ term }) => term);
+    const notes = [...entry.querySelectorAll('note, descrip')].map(note => note.textContent?.trim().toLowerCase());
+    const [first, ...others] = languages;
+    if (!first) continue;
+
+    if (notes.includes(DO_NOT_TRANSLATE) || others.length === 0) {
+      glossary.protectedTerms.push(first.term);
+      continue;
+    }
+    for (const other of others) {
+      glossary.terms.push({
+        sourceLanguage: first.language,
+        targetLanguage: other.language,
+        source: first.term,
+        target: other.term,
+      });
+    }
+  }
+  if (entries.length === 0) {
+    throw new Error('No term entries were found in the TBX file.');
+  }
+  return mergeGlossaries(EMPTY_GLOSSARY, glossary);
+};
+
+export const GLOSSARY_FILE_EXTENSIONS = ['.csv', '.tbx', '.xml'];
+
+export const importGlossary = async (file: File): Promise<Glossary> => {
+  const text = await file.text();
+  if (/\.csv$/i.test(file.name)) return glossaryFromCSV(text);
+  if (/\.(tbx|xml)$/i.test(file.name)) return glossaryFromTBX(text);
+  throw new Error(`${file.name}: unsupported file type. Supported types are ${GLOSSARY_FILE_EXTENSIONS.join(', ')}.`);
+};
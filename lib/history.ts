@@ -0,0 +1,53 @@
+import { withStore } from './db';
+import { createWelcomeMessage, type Message } from './messages';
+
+export type Session = {
+  id: string;
+  title: string;
+  messages: Message[];
+  createdAt: number;
+  updatedAt: number;
+};
+
+export const DEFAULT_SESSION_TITLE = 'New conversation';
+
+export const createSession = (): Session => {
+  const now = Date.now();
+  return {
+    id: `session-${now}`,
+    title: DEFAULT_SESSION_TITLE,
+    messages: [createWelcomeMessage()],
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+// Most recently updated first
+export const listSessions = async (): Promise<Session[]> => {
+  const sessions = await withStore<Session[]>('sessions', 'readonly', store => store.getAll());
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveSession = async (session: Session): Promise<void> => {
+  await withStore('sessions', 'readwrite', store => store.put(session));
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await withStore('sessions', 'readwrite', store => store.delete(id));
+};
+
+// Titles new sessions after their first input so they are easy to find again
+export const deriveSessionTitle = (session: Session): string => {
+  if (session.title !== DEFAULT_SESSION_TITLE) return session.title;
+  const firstInput = session.messages.find(message => message.type === 'input');
+  if (!firstInput) return session.title;
+  const text = firstInput.text.trim().replace(/\s+/g, ' ');
+  return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+};
+
+export const sessionMatches = (session: Session, query: string): boolean => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  return session.title.toLowerCase().includes(needle)
+    || session.messages.some(message => message.text.toLowerCase().includes(needle));
+};
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { createJobQueue, type Job } from './job-queue';
+
+// A task that settles when told to, and remembers whether it was aborted
+const createControlledTask = () => {
+  const runs: { signal: AbortSignal; resolve: (value: string) => void }[] = [];
+  const task = (signal: AbortSignal) => new Promise<string>(resolve => runs.push({ signal, resolve }));
+  return { task, runs };
+};
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const watch = <T,>(queue: ReturnType<typeof createJobQueue<T>>) => {
+  let jobs: Job<T>[] = [];
+  queue.subscribe(next => {
+    jobs = next;
+  });
+  return (id: string) => jobs.find(job => job.id === id);
+};
+
+describe('createJobQueue', () => {
+  it('runs at most `concurrency` jobs at a time, in order', async () => {
+    const queue = createJobQueue<string>(2);
+    const job = watch(queue);
+    const { task, runs } = createControlledTask();
+
+    ['a', 'b', 'c'].forEach(id => queue.enqueue(id, task));
+    expect(runs).toHaveLength(2);
+    expect(job('c')?.status).toBe('queued');
+
+    runs[0].resolve('A');
+    await flush();
+    expect(job('a')).toMatchObject({ status: 'done', result: 'A', attempts: 1 });
+    expect(job('c')?.status).toBe('running');
+
+    // Never below one
+    queue.setConcurrency(0);
+    queue.enqueue('d', task);
+    queue.enqueue('e', task);
+    runs[1].resolve('B');
+    runs[2].resolve('C');
+    await flush();
+    expect(runs).toHaveLength(4);
+    expect(job('e')?.status).toBe('queued');
+  });
+
+  it('reports a failure and runs the job again on retry', async () => {
+    const queue = createJobQueue<string>(1);
+    const job = watch(queue);
+    let attempt = 0;
+    queue.enqueue('a', async () => {
+      attempt++;
+      if (attempt === 1) throw new Error('Model crashed');
+      return 'ok';
+    });
+    await flush();
+    expect(job('a')).toMatchObject({ status: 'failed', error: 'Model crashed', attempts: 1 });
+
+    queue.retry('a');
+    await flush();
+    expect(job('a')).toMatchObject({ status: 'done', result: 'ok', attempts: 2 });
+    expect(job('a')?.error).toBeUndefined();
+  });
+
+  it('never starts a job cancelled while queued', async () => {
+    const queue = createJobQueue<string>(1);
+    const job = watch(queue);
+    const { task, runs } = createControlledTask();
+
+    queue.enqueue('a', task);
+    queue.enqueue('b', task);
+    queue.cancel('b');
+    runs[0].resolve('A');
+    await flush();
+    expect(runs).toHaveLength(1);
+    expect(job('b')?.status).toBe('cancelled');
+    expect(job('b')?.attempts).toBe(0);
+  });
+
+  it('aborts running jobs on cancelAll and forgets every job on clear', async () => {
+    const queue = createJobQueue<string>(2);
+    const job = watch(queue);
+    const { task, runs } = createControlledTask();
+
+    queue.enqueue('a', task);
+    queue.enqueue('b', task);
+    queue.cancelAll();
+    expect(runs.every(run => run.signal.aborted)).toBe(true);
+    expect([job('a')?.status, job('b')?.status]).toEqual(['cancelled', 'cancelled']);
+
+    queue.clear();
+    expect(job('a')).toBeUndefined();
+  });
+
+  it('keeps a job cancelled when a cancelled run finishes after its retry started', async () => {
+    const queue = createJobQueue<string>(2);
+    const job = watch(queue);
+    const { task, runs } = createControlledTask();
+
+    queue.enqueue('a', task);
+    queue.cancel('a');
+    queue.retry('a');
+    expect(runs).toHaveLength(2);
+
+    // The first, cancelled run settles while the retry is running
+    runs[0].resolve('stale');
+    await flush();
+    queue.cancel('a');
+    expect(runs[1].signal.aborted).toBe(true);
+
+    runs[1].resolve('late');
+    await flush();
+    expect(job('a')?.status).toBe('cancelled');
+    expect(job('a')?.result).toBeUndefined();
+  });
+});
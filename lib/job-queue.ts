@@ -0,0 +1,121 @@
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export type Job<T> = {
+  id: string;
+  status: JobStatus;
+  attempts: number;
+  result?: T;
+  error?: string;
+};
+
+export type JobQueue<T> = {
+  enqueue: (id: string, task: (signal: AbortSignal) => Promise<T>) => void;
+  retry: (id: string) => void;
+  cancel: (id: string) => void;
+  cancelAll: () => void;
+  clear: () => void;
+  setConcurrency: (concurrency: number) => void;
+  subscribe: (listener: (jobs: Job<T>[]) => void) => () => void;
+};
+
+type Entry<T> = {
+  job: Job<T>;
+  task: (signal: AbortSignal) => Promise<T>;
+  controller?: AbortController;
+};
+
+// Runs at most `concurrency` tasks at a time, in the order they were enqueued
+export const createJobQueue = <T,>(initialConcurrency: number = 2): JobQueue<T> => {
+  const entries = new Map<string, Entry<T>>();
+  const listeners = new Set<(jobs: Job<T>[]) => void>();
+  let concurrency = initialConcurrency;
+  let running = 0;
+
+  const notify = () => {
+    const jobs = [...entries.values()].map(entry => ({ ...entry.job }));
+    listeners.forEach(listener => listener(jobs));
+  };
+
+  const update = (entry: Entry<T>, changes: Partial<Job<T>>) => {
+    entry.job = { ...entry.job, ...changes };
+    notify();
+  };
+
+  const run = async (entry: Entry<T>) => {
+    const controller = new AbortController();
+    entry.controller = controller;
+    running++;
+    update(entry, { status: 'running', attempts: entry.job.attempts + 1, error: undefined });
+
+    // A cancelled run may settle after a retry replaced it; only the current,
+    // still running one reports a result
+    const isCurrent = () => entry.controller === controller && !controller.signal.aborted && entry.job.status === 'running';
+
+    try {
+      const result = await entry.task(controller.signal);
+      if (isCurrent()) update(entry, { status: 'done', result });
+    } catch (error) {
+      if (isCurrent()) {
+        update(entry, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+      }
+    } finally {
+      if (entry.controller === controller) entry.controller = undefined;
+      running--;
+      pump();
+    }
+  };
+
+  const pump = () => {
+    for (const entry of entries.values()) {
+      if (running >= concurrency) return;
+      if (entry.job.status === 'queued') run(entry);
+    }
+  };
+
+  const cancelEntry = (entry: Entry<T>) => {
+    if (entry.job.status !== 'queued' && entry.job.status !== 'running') return;
+    entry.controller?.abort();
+    entry.controller = undefined;
+    update(entry, { status: 'cancelled' });
+  };
+
+  return {
+    enqueue: (id, task) => {
+      entries.set(id, { job: { id, status: 'queued', attempts: 0 }, task });
+      notify();
+      pump();
+    },
+
+    retry: (id) => {
+      const entry = entries.get(id);
+      if (!entry || (entry.job.status !== 'failed' && entry.job.status !== 'cancelled')) return;
+      update(entry, { status: 'queued', error: undefined });
+      pump();
+    },
+
+    cancel: (id) => {
+      const entry = entries.get(id);
+      if (entry) cancelEntry(entry);
+    },
+
+    cancelAll: () => entries.forEach(cancelEntry),
+
+    clear: () => {
+      entries.forEach(cancelEntry);
+      entries.clear();
+      notify();
+    },
+
+    setConcurrency: (value) => {
+      concurrency = Math.max(1, value);
+      pump();
+    },
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
@@ -0,0 +1,100 @@
+export type TextDirection = 'ltr' | 'rtl';
+
+export type Locale = {
+  code: string;
+  // English name, e.g. "German"
+  name: string;
+  // Name in the language itself, e.g. "Deutsch"
+  nativeName: string;
+  dir: TextDirection;
+};
+
+// Languages Chrome's built-in Translator can translate between
+export const TRANSLATOR_LANGUAGE_CODES = [
+  'ar', 'bg', 'bn', 'cs', 'da', 'de', 'el', 'en', 'es', 'fi', 'fr', 'he', 'hi', 'hr',
+  'hu', 'id', 'it', 'ja', 'kn', 'ko', 'lt', 'mr', 'nl', 'no', 'pl', 'pt', 'ro', 'ru',
+  'sk', 'sl', 'sv', 'ta', 'te', 'th', 'tr', 'uk', 'vi', 'zh', 'zh-Hant',
+];
+
+// Further languages the Language Detector can report
+const DETECTOR_ONLY_LANGUAGE_CODES = [
+  'af', 'am', 'az', 'be', 'bs', 'ca', 'ceb', 'co', 'cy', 'eo', 'et', 'eu', 'fa', 'fil',
+  'fy', 'ga', 'gd', 'gl', 'gu', 'ha', 'haw', 'hmn', 'ht', 'hy', 'ig', 'is', 'jv', 'ka',
+  'kk', 'km', 'ku', 'ky', 'la', 'lb', 'lo', 'lv', 'mg', 'mi', 'mk', 'ml', 'mn', 'ms',
+  'mt', 'my', 'ne', 'ny', 'pa', 'ps', 'sd', 'si', 'sm', 'sn', 'so', 'sq', 'sr', 'st',
+  'su', 'sw', 'tg', 'ur', 'uz', 'xh', 'yi', 'yo', 'zu',
+];
+
+// Languages written right to left, by primary subtag. 'iw' is the legacy code for Hebrew.
+const RTL_LANGUAGES = new Set(['ar', 'ckb', 'dv', 'fa', 'he', 'iw', 'ps', 'sd', 'ug', 'ur', 'yi']);
+const RTL_SCRIPTS = new Set(['arab', 'hebr', 'thaa', 'syrc', 'nkoo']);
+
+const englishNames = new Intl.DisplayNames(['en'], { type: 'language' });
+
+const displayName = (names: Intl.DisplayNames, code: string): string | undefined => {
+  try {
+    return names.of(code);
+  } catch {
+    // Not a valid BCP-47 tag
+    return undefined;
+  }
+};
+
+export const languageDirection = (code: string): TextDirection => {
+  const [language, ...subtags] = code.toLowerCase().split('-');
+  const script = subtags.find(subtag => subtag.length === 4);
+  return RTL_LANGUAGES.has(language) || (script !== undefined && RTL_SCRIPTS.has(script)) ? 'rtl' : 'ltr';
+};
+
+// Maps region-specific tags from other tools (en-US, de-DE) onto the codes
+// the translator uses; unknown codes are returned unchanged
+export const toTranslatorLanguage = (code: string): string => {
+  const lower = code.toLowerCase();
+  return TRANSLATOR_LANGUAGE_CODES.find(supported => supported.toLowerCase() === lower)
+    ?? TRANSLATOR_LANGUAGE_CODES.find(supported => supported === lower.split(/[-_]/)[0])
+    ?? code;
+};
+
+// For the dir attribute: the browser guesses from the text when the language is unknown
+export const textDirection = (code?: string): TextDirection | 'auto' => code ? languageDirection(code) : 'auto';
+
+const locales = new Map<string, Locale>();
+
+// Works for any code a model reports, not only the ones listed above
+export const getLocale = (code: string): Locale => {
+  let locale = locales.get(code);
+  if (!locale) {
+    const name = displayName(englishNames, code) ?? code;
+    let nativeName = name;
+    try {
+      nativeName = displayName(new Intl.DisplayNames([code], { type: 'language' }), code) ?? name;
+    } catch {
+      // No locale data for the language itself
+    }
+    locale = { code, name, nativeName, dir: languageDirection(code) };
+    locales.set(code, locale);
+  }
+  return locale;
+};
+
+const byName = (a: Locale, b: Locale) => a.name.localeCompare(b.name);
+
+export const TRANSLATION_LANGUAGES: Locale[] = TRANSLATOR_LANGUAGE_CODES.map(getLocale).sort(byName);
+
+export const LANGUAGES: Locale[] = [...TRANSLATOR_LANGUAGE_CODES, ...DETECTOR_ONLY_LANGUAGE_CODES]
+  .map(getLocale)
+  .sort(byName);
+
+export const languageName = (code: string): string => getLocale(code).name;
+
+// Case-insensitive match on the code, English name or native name
+export const matchesLanguage = ({ code, name, nativeName }: Locale, query: string): boolean => {
+  const needle = query.trim().toLowerCase();
+  return !needle || [code, name, nativeName].some(value => value.toLowerCase().includes(needle));
+};
+
+export const MAX_RECENT_LANGUAGES = 5;
+
+// Most recent first, without duplicates
+export const addRecentLanguages = (recent: string[], used: string[]): string[] =>
+  [...used, ...recent.filter(code => !used.includes(code))].slice(0, MAX_RECENT_LANGUAGES);
@@ -0,0 +1,68 @@
+import type { List, Nodes, Root } from 'mdast';
+import { fromMarkdown } from 'mdast-util-from-markdown';
+import { gfmFromMarkdown } from 'mdast-util-gfm';
+import { gfm } from 'micromark-extension-gfm';
+
+export type TextView = 'rendered' | 'markdown' | 'plain';
+
+export const TEXT_VIEWS: Array<{ value: TextView; label: string }> = [
+  { value: 'rendered', label: 'Rendered' },
+  { value: 'markdown', label: 'Markdown' },
+  { value: 'plain', label: 'Plain text' },
+];
+
+export const parseMarkdown = (markdown: string): Root =>
+  fromMarkdown(markdown, { extensions: [gfm()], mdastExtensions: [gfmFromMarkdown()] });
+
+const inlineText = (node: Nodes): string => {
+  switch (node.type) {
+    case 'text':
+    case 'inlineCode':
+      return node.value;
+    case 'break':
+      return '\n';
+    case 'image':
+      return node.alt ?? '';
+    case 'html':
+      return '';
+    default:
+      return 'children' in node ? node.children.map(child => inlineText(child as Nodes)).join('') : '';
+  }
+};
+
+const listText = (list: List, depth: number): string =>
+  list.children
+    .map((item, index) => {
+      const marker = list.ordered ? `${(list.start ?? 1) + index}.` : '•';
+      const indent = '  '.repeat(depth);
+      const [first, ...rest] = item.children.map(child => blockText(child as Nodes, depth + 1));
+      const checkbox = item.checked === null || item.checked === undefined ? '' : item.checked ? '[x] ' : '[ ] ';
+      return [`${indent}${marker} ${checkbox}${first ?? ''}`, ...rest].join('\n');
+    })
+    .join('\n');
+
+const blockText = (node: Nodes, depth: number = 0): string => {
+  switch (node.type) {
+    case 'root':
+      return node.children.map(child => blockText(child as Nodes, depth)).filter(Boolean).join('\n\n');
+    case 'list':
+      return listText(node, depth);
+    case 'code':
+      return node.value;
+    case 'thematicBreak':
+      return '';
+    case 'blockquote':
+      return node.children.map(child => blockText(child as Nodes, depth)).join('\n\n');
+    case 'table':
+      return node.children
+        .map(row => row.children.map(cell => inlineText(cell)).join('\t'))
+        .join('\n');
+    default:
+      return inlineText(node);
+  }
+};
+
+// Markdown syntax removed, structure kept: paragraphs stay separated and list
+// items keep a bullet or number. Underscores and asterisks that are not
+// emphasis (snake_case, 2 * 3) come through unchanged.
+export const markdownToPlainText = (markdown: string): string => blockText(parseMarkdown(markdown));
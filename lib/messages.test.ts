@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { applyMemorySuggestion, translationsOf, type MemorySuggestion, type Message } from './messages';
+
+const suggestion: MemorySuggestion = {
+  source: 'Good morning.',
+  translation: 'Bon matin.',
+  suggestion: 'Bonjour.',
+  matchedSource: 'Good morning!',
+  similarity: 0.9,
+};
+
+describe('applyMemorySuggestion', () => {
+  it('replaces every occurrence of the translation', () => {
+    expect(applyMemorySuggestion({ text: 'Bon matin. Ça va ? Bon matin.' }, suggestion))
+      .toEqual({ text: 'Bonjour. Ça va ? Bonjour.' });
+  });
+
+  it('rewrites subtitle cues as well as the text', () => {
+    const subtitles = {
+      format: 'srt' as const,
+      cues: [
+        { id: '1', timing: '00:00:01,000 --> 00:00:02,000', text: 'Bon matin.' },
+        { id: '2', timing: '00:00:03,000 --> 00:00:04,000', text: 'Au revoir.' },
+      ],
+    };
+    const applied = applyMemorySuggestion({ text: 'Bon matin.\n\nAu revoir.', subtitles }, suggestion);
+    expect(applied?.subtitles?.cues.map(cue => cue.text)).toEqual(['Bonjour.', 'Au revoir.']);
+    expect(applied?.text).toBe('Bonjour.\n\nAu revoir.');
+  });
+
+  it('returns null when the translation is no longer there', () => {
+    expect(applyMemorySuggestion({ text: 'Salut.' }, suggestion)).toBeNull();
+  });
+});
+
+describe('translationsOf', () => {
+  const translation = (id: string, sourceMessageId: string, targetLanguage: string): Message => ({
+    id,
+    text: id,
+    type: 'output',
+    operation: { type: 'translate', sourceMessageId, options: { targetLanguage }, createdAt: 0 },
+    translationRoute: { kind: 'direct', steps: [{ sourceLanguage: 'en', targetLanguage }] },
+  });
+
+  it('keeps the latest translation of the message into each language', () => {
+    const messages: Message[] = [
+      { id: 'input', text: 'Hello', type: 'input' },
+      translation('fr-1', 'input', 'fr'),
+      translation('de-1', 'input', 'de'),
+      translation('fr-2', 'input', 'fr'),
+      translation('es-1', 'other', 'es'),
+      {
+        id: 'summary',
+        text: 'Hi',
+        type: 'output',
+        operation: { type: 'summarize', sourceMessageId: 'input', options: { type: 'tl;dr', length: 'short', format: 'plain-text' }, createdAt: 0 },
+      },
+    ];
+    expect(translationsOf(messages, 'input').map(message => message.id)).toEqual(['fr-2', 'de-1']);
+  });
+});
@@ -0,0 +1,142 @@
+import type { SummarizerOptions } from './ai';
+import type { ChunkProgress } from './ai/chunked';
+import type { TranslationRoute } from './ai/translation-route';
+import type { LanguageSpan } from './detection';
+import type { DocumentFormat } from './document-format';
+import type { ErrorInfo } from './errors';
+import { subtitlesToPlainText, type SubtitleDocument } from './subtitles';
+
+export type DetectedLanguage = {
+  name: string;
+  code: string;
+  confidence: number;
+};
+
+export type MemorySuggestion = {
+  source: string;
+  // What the model produced for `source`, as it appears in the message text
+  translation: string;
+  // Stored translation of `matchedSource`
+  suggestion: string;
+  matchedSource: string;
+  similarity: number;
+};
+
+export type OperationType = 'detect' | 'translate' | 'summarize';
+
+// How a derived message was made. Each input is the root of a tree of these.
+export type MessageOperation = {
+  // Message the operation ran on
+  sourceMessageId: string;
+  // Language of the result, when known
+  language?: string;
+  createdAt: number;
+} & (
+  | { type: 'detect' }
+  | { type: 'translate'; options: { targetLanguage: string } }
+  | { type: 'summarize'; options: SummarizerOptions }
+);
+
+export type Message = {
+  id: string;
+  text: string;
+  type: 'input' | 'output';
+  detectedLanguage?: DetectedLanguage;
+  // Top detection results, shown so users can pick another language
+  languageCandidates?: DetectedLanguage[];
+  // True when the user chose the language instead of the detector
+  languageOverridden?: boolean;
+  // Per-sentence languages, kept only when the text mixes languages
+  languageSpans?: LanguageSpan[];
+  showSummarize?: boolean;
+  originalText?: string;
+  // Name of the imported file the text came from
+  fileName?: string;
+  // Timing cues for subtitle inputs and their translations
+  subtitles?: SubtitleDocument;
+  // Markdown or HTML text, translated without touching its markup
+  documentFormat?: DocumentFormat;
+  // Language pairs a translation went through
+  translationRoute?: TranslationRoute;
+  // The operation that produced an output message
+  operation?: MessageOperation;
+  // Glossary and protected terms that appear in a translation, for highlighting
+  glossaryTerms?: string[];
+  // Segments of a translation served from the translation memory
+  memoryMatches?: number;
+  // Close translation memory matches for segments the model translated
+  memorySuggestions?: MemorySuggestion[];
+  // True while output is still streaming into the message
+  isStreaming?: boolean;
+  // Progress through a long document while it is processed in chunks
+  progress?: ChunkProgress;
+  // Why the last summary or translation of this message failed
+  error?: ErrorInfo;
+};
+
+export const createMessageId = (): string =>
+  `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const translationTargetLanguage = (message: Message): string | undefined => {
+  const steps = message.translationRoute?.steps;
+  return steps?.[steps.length - 1].targetLanguage;
+};
+
+// Language the message text is written in, when known
+export const messageLanguage = (message: Message): string | undefined =>
+  translationTargetLanguage(message) ?? message.detectedLanguage?.code;
+
+// Options that produced a summary message
+export const summaryOptionsOf = ({ operation }: Message): SummarizerOptions | undefined =>
+  operation?.type === 'summarize' ? operation.options : undefined;
+
+// The latest translation into each language; earlier runs stay in the conversation
+export const translationsOf = (messages: Message[], sourceMessageId: string): Message[] => {
+  const latest = new Map<string, Message>();
+  messages
+    .filter(({ operation }) => operation?.type === 'translate' && operation.sourceMessageId === sourceMessageId)
+    .forEach(message => latest.set(translationTargetLanguage(message) ?? message.id, message));
+  return [...latest.values()];
+};
+
+// The chain of messages from the input down to `message`, inclusive
+export const operationLineage = (messages: Message[], message: Message): Message[] => {
+  const byId = new Map(messages.map(other => [other.id, other]));
+  const lineage = [message];
+  for (
+    let source = byId.get(message.operation?.sourceMessageId ?? '');
+    source && !lineage.includes(source);
+    source = byId.get(source.operation?.sourceMessageId ?? '')
+  ) {
+    lineage.unshift(source);
+  }
+  return lineage;
+};
+
+// Messages made directly from `messageId`, oldest first
+export const operationChildren = (messages: Message[], messageId: string): Message[] =>
+  messages.filter(message => message.operation?.sourceMessageId === messageId);
+
+// Swaps a segment's translation for the suggested one wherever it appears.
+// Subtitles are rewritten cue by cue, so exports pick the change up too. Null
+// when the translation is no longer in the message, e.g. after an edit.
+export const applyMemorySuggestion = (
+  message: Pick<Message, 'text' | 'subtitles'>,
+  { translation, suggestion }: MemorySuggestion
+): Pick<Message, 'text' | 'subtitles'> | null => {
+  if (!translation) return null;
+  const replace = (text: string) => text.split(translation).join(suggestion);
+
+  if (message.subtitles) {
+    if (!message.subtitles.cues.some(cue => cue.text.includes(translation))) return null;
+    const subtitles = { ...message.subtitles, cues: message.subtitles.cues.map(cue => ({ ...cue, text: replace(cue.text) })) };
+    return { text: subtitlesToPlainText(subtitles), subtitles };
+  }
+  return message.text.includes(translation) ? { text: replace(message.text) } : null;
+};
+
+export const createWelcomeMessage = (): Message => ({
+  id: 'welcome',
+  text: "👋 Welcome to AI Text Processor! I can help you with:\n\n• Translating text between multiple languages\n• Summarizing long English text into key points\n• Automatically detecting the language of your text\n\nJust type your text in the box below and I'll help you process it!",
+  type: 'output'
+});
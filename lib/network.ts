@@ -0,0 +1,57 @@
+// navigator.onLine can report true on a network without internet access, so
+// callers should still expect network requests to fail. It is reliable for
+// the "definitely offline" case, which is what the queue below waits on.
+export const isOnline = (): boolean => typeof navigator !== 'undefined' && navigator.onLine;
+
+export const subscribeToNetworkStatus = (listener: (online: boolean) => void): (() => void) => {
+  const handleOnline = () => listener(true);
+  const handleOffline = () => listener(false);
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('offline', handleOffline);
+  };
+};
+
+export type NetworkQueue = {
+  enqueue: (task: () => unknown) => void;
+  subscribe: (listener: (pending: number) => void) => () => void;
+};
+
+// Holds work that needs the network until the connection returns. Tasks
+// handle their own errors; the queue only decides when they start.
+export const createNetworkQueue = (): NetworkQueue => {
+  let tasks: Array<() => unknown> = [];
+  const listeners = new Set<(pending: number) => void>();
+  let unsubscribe: (() => void) | null = null;
+
+  const notify = () => listeners.forEach(listener => listener(tasks.length));
+
+  const flush = () => {
+    const ready = tasks;
+    tasks = [];
+    unsubscribe?.();
+    unsubscribe = null;
+    notify();
+    ready.forEach(task => task());
+  };
+
+  return {
+    enqueue: (task) => {
+      tasks.push(task);
+      unsubscribe ??= subscribeToNetworkStatus(online => {
+        if (online) flush();
+      });
+      notify();
+    },
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      listener(tasks.length);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { BUILT_IN_RECIPES, createRecipe, planRecipe, recipesFor, SELECTED_LANGUAGES } from './recipes';
+
+const [summarizeInOriginal, summarizeThenTranslate] = BUILT_IN_RECIPES;
+
+describe('planRecipe', () => {
+  it('goes through English and back to the source language', () => {
+    expect(planRecipe(summarizeInOriginal, 'fr', ['es'])).toEqual([
+      { type: 'translate', targetLanguages: ['en'] },
+      { type: 'summarize' },
+      { type: 'translate', targetLanguages: ['fr'] },
+    ]);
+  });
+
+  it('skips translations into the language the text is already in', () => {
+    expect(planRecipe(summarizeInOriginal, 'en', ['es'])).toEqual([{ type: 'summarize' }]);
+    expect(planRecipe(summarizeThenTranslate, 'en', ['en', 'es', 'de'])).toEqual([
+      { type: 'summarize' },
+      { type: 'translate', targetLanguages: ['es', 'de'] },
+    ]);
+  });
+
+  it('continues from the first of several languages', () => {
+    const recipe = createRecipe('Fan out', [
+      { type: 'translate', targetLanguage: SELECTED_LANGUAGES },
+      { type: 'translate', targetLanguage: 'es' },
+    ]);
+    expect(planRecipe(recipe, 'en', ['es', 'de'])).toEqual([{ type: 'translate', targetLanguages: ['es', 'de'] }]);
+  });
+
+  it('refuses to summarize text that is not in English', () => {
+    expect(planRecipe(createRecipe('Summary', [{ type: 'summarize' }]), 'fr', [])).toBeNull();
+  });
+});
+
+describe('recipesFor', () => {
+  it('leaves out recipes that come down to a single step', () => {
+    expect(recipesFor(BUILT_IN_RECIPES, 'en', ['en'])).toEqual([]);
+    expect(recipesFor(BUILT_IN_RECIPES, 'en', ['es'])).toEqual([summarizeThenTranslate]);
+  });
+});
@@ -0,0 +1,114 @@
+import type { SummarizerOptions } from './ai/types';
+import { describeSummarizerOptions } from './ai/summarizer-options';
+import { languageName } from './languages';
+import { loadSetting, saveSetting } from './settings';
+
+// Placeholders a translation step can use instead of a language code
+export const SOURCE_LANGUAGE = 'source';
+export const SELECTED_LANGUAGES = 'selected';
+
+export type RecipeStep =
+  // A language code, SOURCE_LANGUAGE for the language the recipe started from,
+  // or SELECTED_LANGUAGES for the target languages picked next to the input
+  | { type: 'translate'; targetLanguage: string }
+  // Without options the current summary settings are used
+  | { type: 'summarize'; options?: SummarizerOptions };
+
+// Steps run one after another, each on the result of the one before
+export type Recipe = {
+  id: string;
+  name: string;
+  steps: RecipeStep[];
+  builtIn?: boolean;
+};
+
+// The summarizer only reads English, so text in other languages goes through English
+export const BUILT_IN_RECIPES: Recipe[] = [
+  {
+    id: 'summarize-in-original-language',
+    name: 'Summarize in original language',
+    builtIn: true,
+    steps: [
+      { type: 'translate', targetLanguage: 'en' },
+      { type: 'summarize' },
+      { type: 'translate', targetLanguage: SOURCE_LANGUAGE },
+    ],
+  },
+  {
+    id: 'summarize-then-translate',
+    name: 'Summarize, then translate',
+    builtIn: true,
+    steps: [
+      { type: 'translate', targetLanguage: 'en' },
+      { type: 'summarize' },
+      { type: 'translate', targetLanguage: SELECTED_LANGUAGES },
+    ],
+  },
+];
+
+export const createRecipe = (name: string, steps: RecipeStep[]): Recipe => ({
+  id: `recipe-${Date.now()}`,
+  name,
+  steps,
+});
+
+// Only the user's own recipes are stored; built-in ones always come from the code
+export const loadRecipes = (): Recipe[] => loadSetting('recipes', []);
+
+export const saveRecipes = (recipes: Recipe[]): void => saveSetting('recipes', recipes);
+
+export const describeTarget = (targetLanguage: string): string => {
+  if (targetLanguage === SOURCE_LANGUAGE) return 'original language';
+  if (targetLanguage === SELECTED_LANGUAGES) return 'selected languages';
+  return languageName(targetLanguage);
+};
+
+export const describeStep = (step: RecipeStep): string =>
+  step.type === 'translate'
+    ? `Translate to ${describeTarget(step.targetLanguage)}`
+    : `Summarize${step.options ? ` (${describeSummarizerOptions(step.options)})` : ''}`;
+
+export const describeRecipe = (recipe: Recipe): string => recipe.steps.map(describeStep).join(' → ');
+
+// A step with its placeholders resolved for one text
+export type PlannedStep =
+  | { type: 'translate'; targetLanguages: string[] }
+  | { type: 'summarize'; options?: SummarizerOptions };
+
+// Resolves a recipe for text in `sourceLanguage`. Translations into the
+// language the text is already in are skipped, and when a step translates
+// into several languages, later steps continue from the first. Returns null
+// when a summary would be asked of text that is not in English.
+export const planRecipe = (
+  recipe: Recipe,
+  sourceLanguage: string,
+  selectedLanguages: string[]
+): PlannedStep[] | null => {
+  const plan: PlannedStep[] = [];
+  let language = sourceLanguage;
+  for (const step of recipe.steps) {
+    if (step.type === 'summarize') {
+      if (language !== 'en') return null;
+      plan.push(step);
+      continue;
+    }
+
+    const targets = step.targetLanguage === SOURCE_LANGUAGE
+      ? [sourceLanguage]
+      : step.targetLanguage === SELECTED_LANGUAGES ? selectedLanguages : [step.targetLanguage];
+    const targetLanguages = targets.filter(code => code !== language);
+    if (targetLanguages.length === 0) continue;
+    plan.push({ type: 'translate', targetLanguages });
+    language = targetLanguages[0];
+  }
+  return plan;
+};
+
+// Recipes worth offering for text in `sourceLanguage`. A plan of one step is
+// left out, since the Summarize and Translate buttons already do that.
+export const recipesFor = (
+  recipes: Recipe[],
+  sourceLanguage: string,
+  selectedLanguages: string[]
+): Recipe[] =>
+  recipes.filter(recipe => (planRecipe(recipe, sourceLanguage, selectedLanguages)?.length ?? 0) > 1);
@@ -0,0 +1,24 @@
+export const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Runs `operation` up to `maxRetries` times, waiting `delayMs` between
+// attempts, and rethrows the last error
+export const retryOperation = async <T,>(
+  operation: () => Promise<T>,
+  maxRetries: number = 3,
+  delayMs: number = 5000
+): Promise<T> => {
+  let lastError: Error | null = null;
+
+  for (let i = 0; i < maxRetries; i++) {
+    try {
+      return await operation();
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error(String(error));
+      if (i < maxRetries - 1) {
+        await delay(delayMs);
+      }
+    }
+  }
+
+  throw lastError;
+};
@@ -0,0 +1,209 @@
+import { DEFAULT_SUMMARIZER_OPTIONS } from '@/lib/ai/summarizer-options';
+import type { LanguageDetectionResult, SummarizerOptions } from '@/lib/ai/types';
+
+// Any OpenAI-compatible chat completions server works here, e.g.
+// LOCAL_MODEL_ENDPOINT=http://localhost:11434/v1 for Ollama.
+const getConfig = () => ({
+  endpoint: process.env.LOCAL_MODEL_ENDPOINT?.replace(/\/+$/, ''),
+  model: process.env.LOCAL_MODEL_NAME || 'default',
+  apiKey: process.env.LOCAL_MODEL_API_KEY,
+});
+
+export class LocalModelError extends Error {
+  constructor(message: string, readonly status: number = 502) {
+    super(message);
+    this.name = 'LocalModelError';
+  }
+}
+
+export const isLocalModelConfigured = (): boolean => !!getConfig().endpoint;
+
+const requestCompletion = async (
+  system: string,
+  user: string,
+  stream: boolean,
+  signal?: AbortSignal
+): Promise<Response> => {
+  const { endpoint, model, apiKey } = getConfig();
+  if (!endpoint) {
+    throw new LocalModelError('No local model endpoint is configured. Set LOCAL_MODEL_ENDPOINT on the server.', 503);
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`${endpoint}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        stream,
+        temperature: 0,
+        messages: [
+          { role: 'system', content: system },
+          { role: 'user', content: user },
+        ],
+      }),
+      signal,
+    });
+  } catch (error) {
+    throw new LocalModelError(
+      `Could not reach the local model at ${endpoint}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  if (!response.ok) {
+    throw new LocalModelError(`Local model request failed with status ${response.status}.`);
+  }
+  return response;
+};
+
+const complete = async (system: string, user: string): Promise<string> => {
+  const response = await requestCompletion(system, user, false);
+  const data = await response.json() as { choices?: Array<{ message?: { content?: string } }> };
+  const content = data.choices?.[0]?.message?.content;
+  if (typeof content !== 'string') {
+    throw new LocalModelError('Local model returned an unexpected response.');
+  }
+  return content.trim();
+};
+
+// Turns the server-sent events of a streamed completion into text deltas
+const completeStreaming = async (
+  system: string,
+  user: string,
+  signal?: AbortSignal
+): Promise<ReadableStream<string>> => {
+  const response = await requestCompletion(system, user, true, signal);
+  if (!response.body) {
+    throw new LocalModelError('Local model returned an empty stream.');
+  }
+
+  let buffer = '';
+  return response.body
+    .pipeThrough(new TextDecoderStream())
+    .pipeThrough(new TransformStream<string, string>({
+      transform(chunk, controller) {
+        buffer += chunk;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+          const data = line.replace(/^data:\s*/, '').trim();
+          if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+          try {
+            const event = JSON.parse(data) as { choices?: Array<{ delta?: { content?: string } }> };
+            const content = event.choices?.[0]?.delta?.content;
+            if (content) controller.enqueue(content);
+          } catch {
+            // Ignore keep-alive comments and partial events
+          }
+        }
+      },
+    }));
+};
+
+const SUMMARY_STYLES: Record<SummarizerOptions['type'], string> = {
+  'key-points': 'a list of the key points',
+  'tl;dr': 'a short TL;DR overview',
+  'teaser': 'a teaser that makes the reader want to read the full text',
+  'headline': 'a single headline',
+};
+
+const SUMMARY_LENGTHS: Record<SummarizerOptions['length'], string> = {
+  short: 'Keep it very brief.',
+  medium: 'Keep it moderately brief.',
+  long: 'It may be detailed.',
+};
+
+const summarizePrompt = ({ type, length, format, sharedContext }: SummarizerOptions = DEFAULT_SUMMARIZER_OPTIONS) =>
+  [
+    `Summarize the user's text as ${SUMMARY_STYLES[type]}.`,
+    SUMMARY_LENGTHS[length],
+    format === 'markdown' ? 'Format the answer as markdown.' : 'Answer in plain text without any markdown.',
+    sharedContext?.trim(),
+    'Answer with the summary only.',
+  ].filter(Boolean).join(' ');
+
+const translatePrompt = (sourceLanguage: string, targetLanguage: string) =>
+  `Translate the user's text from ${sourceLanguage === 'auto' ? 'its detected language' : `the language with BCP-47 code "${sourceLanguage}"`} into the language with BCP-47 code "${targetLanguage}". Answer with the translation only.`;
+
+export const summarizeWithLocalModel = (text: string, options?: SummarizerOptions): Promise<string> =>
+  complete(summarizePrompt(options), text);
+
+export const summarizeStreamingWithLocalModel = (
+  text: string,
+  options?: SummarizerOptions,
+  signal?: AbortSignal
+): Promise<ReadableStream<string>> =>
+  completeStreaming(summarizePrompt(options), text, signal);
+
+// Accepts the same option values as window.ai.summarizer.create
+export const parseSummarizerOptions = (value: unknown): SummarizerOptions | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const { type, length, format, sharedContext } = value as Record<string, unknown>;
+  if (typeof type !== 'string' || !(type in SUMMARY_STYLES)) return undefined;
+  if (typeof length !== 'string' || !(length in SUMMARY_LENGTHS)) return undefined;
+  if (format !== 'markdown' && format !== 'plain-text') return undefined;
+  return {
+    type: type as SummarizerOptions['type'],
+    length: length as SummarizerOptions['length'],
+    format,
+    sharedContext: typeof sharedContext === 'string' ? sharedContext : undefined,
+  };
+};
+
+export const translateWithLocalModel = (
+  text: string,
+  sourceLanguage: string,
+  targetLanguage: string
+): Promise<string> =>
+  complete(translatePrompt(sourceLanguage, targetLanguage), text);
+
+export const translateStreamingWithLocalModel = (
+  text: string,
+  sourceLanguage: string,
+  targetLanguage: string,
+  signal?: AbortSignal
+): Promise<ReadableStream<string>> =>
+  completeStreaming(translatePrompt(sourceLanguage, targetLanguage), text, signal);
+
+export const detectWithLocalModel = async (text: string): Promise<LanguageDetectionResult[]> => {
+  const answer = await complete(
+    'Identify the language of the user\'s text. Answer with JSON only: an array of up to three objects {"detectedLanguage": "<BCP-47 code>", "confidence": <number between 0 and 1>}, most likely first.',
+    text
+  );
+
+  // Models sometimes wrap JSON in prose or code fences
+  const json = answer.slice(answer.indexOf('['), answer.lastIndexOf(']') + 1);
+  try {
+    const parsed = JSON.parse(json) as unknown;
+    if (!Array.isArray(parsed)) throw new Error('not an array');
+    return parsed
+      .filter((item): item is LanguageDetectionResult =>
+        typeof item?.detectedLanguage === 'string' && typeof item?.confidence === 'number')
+      .sort((a, b) => b.confidence - a.confidence);
+  } catch {
+    throw new LocalModelError('Local model returned an unreadable language detection result.');
+  }
+};
+
+export const toErrorResponse = (error: unknown): Response => {
+  if (error instanceof LocalModelError) {
+    return Response.json({ error: error.message }, { status: error.status });
+  }
+  return Response.json(
+    { error: error instanceof Error ? error.message : 'Unexpected server error.' },
+    { status: 500 }
+  );
+};
+
+export const toTextStreamResponse = (stream: ReadableStream<string>): Response =>
+  new Response(stream.pipeThrough(new TextEncoderStream()), {
+    headers: { 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': 'no-cache' },
+  });
+
+// Mirrors window.ai's capabilities() so the client can decide whether to fall back here
+export const localModelAvailability = (): Response =>
+  Response.json({ available: isLocalModelConfigured() ? 'readily' : 'no' });
@@ -0,0 +1,21 @@
+const STORAGE_PREFIX = 'text-processor:';
+
+// Small user preferences live in localStorage; conversations use IndexedDB
+export const loadSetting = <T,>(key: string, fallback: T): T => {
+  if (typeof localStorage === 'undefined') return fallback;
+  try {
+    const raw = localStorage.getItem(`${STORAGE_PREFIX}${key}`);
+    return raw === null ? fallback : JSON.parse(raw) as T;
+  } catch {
+    return fallback;
+  }
+};
+
+export const saveSetting = <T,>(key: string, value: T): void => {
+  if (typeof localStorage === 'undefined') return;
+  try {
+    localStorage.setItem(`${STORAGE_PREFIX}${key}`, JSON.stringify(value));
+  } catch {
+    // Storage can be full or disabled; the setting just won't persist
+  }
+};
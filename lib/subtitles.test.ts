@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { parseSubtitles, serializeSubtitles, subtitlesToPlainText } from './subtitles';
+
+const SRT = `1
+00:00:01,000 --> 00:00:02,500
+Hello there.
+
+2
+00:00:03,000 --> 00:00:04,000
+Two
+lines.
+`;
+
+const VTT = `WEBVTT - Example
+Kind: captions
+
+NOTE This is dropped
+
+intro
+00:01.000 --> 00:02.500 align:start
+Hello there.
+
+00:03.000 --> 00:04.000
+Goodbye.
+`;
+
+describe('parseSubtitles', () => {
+  it('reads SRT cues', () => {
+    expect(parseSubtitles(SRT, 'srt').cues).toEqual([
+      { id: '1', timing: '00:00:01,000 --> 00:00:02,500', text: 'Hello there.' },
+      { id: '2', timing: '00:00:03,000 --> 00:00:04,000', text: 'Two\nlines.' },
+    ]);
+  });
+
+  it('reads WebVTT cues, keeping the header and dropping notes', () => {
+    const document = parseSubtitles(VTT.replace(/\n/g, '\r\n'), 'vtt');
+    expect(document.header).toBe('WEBVTT - Example\nKind: captions');
+    expect(document.cues).toEqual([
+      { id: 'intro', timing: '00:01.000 --> 00:02.500 align:start', text: 'Hello there.' },
+      { id: undefined, timing: '00:03.000 --> 00:04.000', text: 'Goodbye.' },
+    ]);
+  });
+
+  it('rejects files without a WebVTT header or without cues', () => {
+    expect(() => parseSubtitles(SRT, 'vtt')).toThrow('it must start with "WEBVTT"');
+    expect(() => parseSubtitles('Just text', 'srt')).toThrow('No subtitle cues were found in this SRT file.');
+  });
+});
+
+describe('serializeSubtitles', () => {
+  it.each([[SRT, 'srt'], [VTT.replace('NOTE This is dropped\n\n', ''), 'vtt']] as const)(
+    'writes back what it read',
+    (source, format) => {
+      expect(serializeSubtitles(parseSubtitles(source, format))).toBe(source);
+    }
+  );
+
+  it('renumbers SRT cues', () => {
+    const document = parseSubtitles(SRT, 'srt');
+    const [id, timing] = serializeSubtitles({ ...document, cues: document.cues.slice(1) }).split('\n');
+    expect(id).toBe('1');
+    expect(timing).toBe('00:00:03,000 --> 00:00:04,000');
+  });
+});
+
+describe('subtitlesToPlainText', () => {
+  it('joins the cue text only', () => {
+    expect(subtitlesToPlainText(parseSubtitles(SRT, 'srt'))).toBe('Hello there.\n\nTwo\nlines.');
+  });
+});
@@ -0,0 +1,68 @@
+export type SubtitleFormat = 'srt' | 'vtt';
+
+export type SubtitleCue = {
+  // SRT sequence number or WebVTT cue identifier
+  id?: string;
+  // Timing line as written in the source, e.g. "00:00:01,000 --> 00:00:02,500"
+  timing: string;
+  text: string;
+};
+
+export type SubtitleDocument = {
+  format: SubtitleFormat;
+  // WebVTT header block (the WEBVTT line plus any metadata)
+  header?: string;
+  cues: SubtitleCue[];
+};
+
+const TIMING_PATTERN = /^\s*(\d{1,2}:)?\d{1,2}:\d{2}[.,]\d{3}\s+-->\s+(\d{1,2}:)?\d{1,2}:\d{2}[.,]\d{3}/;
+
+export const isSubtitleFileName = (fileName: string): boolean => /\.(srt|vtt)$/i.test(fileName);
+
+export const parseSubtitles = (source: string, format: SubtitleFormat): SubtitleDocument => {
+  const blocks = source
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n{2,}/)
+    .map(block => block.trim())
+    .filter(Boolean);
+
+  let header: string | undefined;
+  if (format === 'vtt') {
+    if (!blocks[0]?.startsWith('WEBVTT')) {
+      throw new Error('Invalid WebVTT file: it must start with "WEBVTT".');
+    }
+    header = blocks.shift();
+  }
+
+  const cues: SubtitleCue[] = [];
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => TIMING_PATTERN.test(line));
+    // NOTE, STYLE and REGION blocks in WebVTT carry no timing and are dropped
+    if (timingIndex === -1 || timingIndex > 1) continue;
+    cues.push({
+      id: timingIndex === 1 ? lines[0] : undefined,
+      timing: lines[timingIndex].trim(),
+      text: lines.slice(timingIndex + 1).join('\n'),
+    });
+  }
+
+  if (cues.length === 0) {
+    throw new Error(`No subtitle cues were found in this ${format.toUpperCase()} file.`);
+  }
+  return { format, header, cues };
+};
+
+export const serializeSubtitles = ({ format, header, cues }: SubtitleDocument): string => {
+  const blocks = cues.map((cue, index) => {
+    const id = format === 'srt' ? String(index + 1) : cue.id;
+    return [id, cue.timing, cue.text].filter(line => line !== undefined).join('\n');
+  });
+  if (format === 'vtt') blocks.unshift(header ?? 'WEBVTT');
+  return `${blocks.join('\n\n')}\n`;
+};
+
+// Cue text only, for language detection and summarization
+export const subtitlesToPlainText = ({ cues }: SubtitleDocument): string =>
+  cues.map(cue => cue.text).join('\n\n');
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { translationMemoryFromTMX, translationMemoryToTMX, type TranslationUnit } from './translation-memory';
+
+const UNITS: TranslationUnit[] = [
+  {
+    id: 'en>es:Fish & <chips>',
+    pair: 'en>es',
+    sourceLanguage: 'en',
+    targetLanguage: 'es',
+    source: 'Fish & <chips>',
+    target: 'Pescado y "patatas"',
+    updatedAt: Date.UTC(2024, 4, 6, 7, 8, 9),
+  },
+];
+
+describe('translationMemoryToTMX', () => {
+  it('writes units that translationMemoryFromTMX reads back', () => {
+    const tmx = translationMemoryToTMX(UNITS);
+    expect(tmx).toContain('<seg>Fish &amp; &lt;chips&gt;</seg>');
+    expect(tmx).toContain('changedate="20240506T070809Z"');
+    expect(translationMemoryFromTMX(tmx)).toEqual(UNITS);
+  });
+});
+
+describe('translationMemoryFromTMX', () => {
+  it('reads every other language of a tu as a translation of its source', () => {
+    const units = translationMemoryFromTMX(`<?xml version="1.0"?>
+      <tmx version="1.1">
+        <header srclang="en-US"/>
+        <body>
+          <tu>
+            <tuv lang="de-DE"><seg>Hallo  <ph>&lt;b/&gt;</ph>Welt</seg></tuv>
+            <tuv lang="en-US"><seg>Hello <bpt i="1">&lt;b&gt;</bpt>world<ept i="1">&lt;/b&gt;</ept></seg></tuv>
+            <tuv lang="fr-FR"><seg>Bonjour le monde</seg></tuv>
+            <tuv lang="it-IT"><seg> </seg></tuv>
+          </tu>
+        </body>
+      </tmx>`);
+    expect(units.map(({ pair, source, target }) => ({ pair, source, target }))).toEqual([
+      { pair: 'en>de', source: 'Hello world', target: 'Hallo  Welt' },
+      { pair: 'en>fr', source: 'Hello world', target: 'Bonjour le monde' },
+    ]);
+  });
+
+  it('rejects files that are not TMX', () => {
+    expect(() => translationMemoryFromTMX('<tmx>')).toThrow('The TMX file is not valid XML.');
+    expect(() => translationMemoryFromTMX('<xliff/>')).toThrow('The file is not a TMX translation memory.');
+  });
+});
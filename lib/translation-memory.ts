@@ -0,0 +1,233 @@
+import type { TranslatedSegment } from './ai/translation-route';
+import type { LanguagePair } from './ai/types';
+import { withStore, withTransaction } from './db';
+import { toTranslatorLanguage } from './languages';
+import type { MemorySuggestion } from './messages';
+import { escapeXML, parseXML } from './xml';
+
+// One source segment and its translation, usually a sentence or subtitle cue
+export type TranslationUnit = LanguagePair & {
+  // Pair and normalized source, so each segment is stored once per pair
+  id: string;
+  pair: string;
+  source: string;
+  target: string;
+  updatedAt: number;
+};
+
+export type FuzzyMatch = {
+  unit: TranslationUnit;
+  // 0-1, by edit distance between the normalized sources
+  similarity: number;
+};
+
+// The part the translation pipeline needs, so it does not depend on IndexedDB
+export type TranslationMemory = {
+  lookup: (pair: LanguagePair, source: string) => Promise<string | undefined>;
+  store: (pair: LanguagePair, source: string, target: string) => Promise<void>;
+};
+
+export const DEFAULT_FUZZY_MATCH_THRESHOLD = 0.75;
+
+// Segments are compared ignoring surrounding and repeated whitespace
+export const normalizeSegment = (text: string): string => text.trim().replace(/\s+/g, ' ');
+
+const pairKey = ({ sourceLanguage, targetLanguage }: LanguagePair): string => `${sourceLanguage}>${targetLanguage}`;
+
+const unitId = (pair: LanguagePair, source: string): string => `${pairKey(pair)}:${normalizeSegment(source)}`;
+
+const createUnit = (pair: LanguagePair, source: string, target: string, updatedAt: number = Date.now()): TranslationUnit => ({
+  id: unitId(pair, source),
+  pair: pairKey(pair),
+  sourceLanguage: pair.sourceLanguage,
+  targetLanguage: pair.targetLanguage,
+  source: normalizeSegment(source),
+  target: target.trim(),
+  updatedAt,
+});
+
+export const addTranslationUnit = async (pair: LanguagePair, source: string, target: string): Promise<void> => {
+  if (!normalizeSegment(source) || !target.trim()) return;
+  await withStore('translationMemory', 'readwrite', store => store.put(createUnit(pair, source, target)));
+};
+
+export const findExactMatch = async (pair: LanguagePair, source: string): Promise<TranslationUnit | undefined> =>
+  withStore<TranslationUnit | undefined>('translationMemory', 'readonly', store => store.get(unitId(pair, source)));
+
+// Levenshtein distance over two rows
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+export const segmentSimilarity = (a: string, b: string): number => {
+  const left = normalizeSegment(a).toLowerCase();
+  const right = normalizeSegment(b).toLowerCase();
+  const longest = Math.max(left.length, right.length);
+  return longest === 0 ? 1 : 1 - editDistance(left, right) / longest;
+};
+
+// Scoring is done on the main thread, so at most this many units are compared
+const MAX_FUZZY_CANDIDATES = 500;
+
+// Units whose length is close enough to `source` to reach `threshold`, read
+// through the length index rather than scanning the whole pair
+const fuzzyCandidates = async (pair: LanguagePair, source: string, threshold: number): Promise<TranslationUnit[]> => {
+  const length = normalizeSegment(source).length;
+  if (length === 0) return [];
+  const range = IDBKeyRange.bound(
+    [pairKey(pair), Math.ceil(length * threshold)],
+    [pairKey(pair), threshold > 0 ? Math.floor(length / threshold) : Infinity]
+  );
+  return withStore<TranslationUnit[]>('translationMemory', 'readonly', store =>
+    store.index('pairLength').getAll(range, MAX_FUZZY_CANDIDATES));
+};
+
+const rankFuzzyMatches = (units: TranslationUnit[], source: string, threshold: number, limit: number): FuzzyMatch[] => {
+  const normalized = normalizeSegment(source);
+  return units
+    // The length difference alone can rule a unit out before the costly comparison
+    .filter(unit => unit.source !== normalized
+      && Math.min(unit.source.length, normalized.length) / Math.max(unit.source.length, normalized.length) >= threshold)
+    .map(unit => ({ unit, similarity: segmentSimilarity(unit.source, normalized) }))
+    .filter(({ similarity }) => similarity >= threshold)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+};
+
+// Best matches first; exact matches are left to findExactMatch
+export const findFuzzyMatches = async (
+  pair: LanguagePair,
+  source: string,
+  threshold: number = DEFAULT_FUZZY_MATCH_THRESHOLD,
+  limit: number = 3
+): Promise<FuzzyMatch[]> => rankFuzzyMatches(await fuzzyCandidates(pair, source, threshold), source, threshold, limit);
+
+// The closest stored translation for each segment the model translated
+export const suggestFromMemory = async (
+  pair: LanguagePair,
+  segments: TranslatedSegment[],
+  threshold: number = DEFAULT_FUZZY_MATCH_THRESHOLD
+): Promise<MemorySuggestion[]> => {
+  const suggestions: MemorySuggestion[] = [];
+  for (const { source, target } of segments.filter(segment => !segment.fromMemory)) {
+    const [match] = rankFuzzyMatches(await fuzzyCandidates(pair, source, threshold), source, threshold, 1);
+    if (match) {
+      suggestions.push({
+        source,
+        translation: target,
+        suggestion: match.unit.target,
+        matchedSource: match.unit.source,
+        similarity: match.similarity,
+      });
+    }
+  }
+  return suggestions;
+};
+
+export const listTranslationUnits = async (): Promise<TranslationUnit[]> =>
+  withStore<TranslationUnit[]>('translationMemory', 'readonly', store => store.getAll());
+
+export const countTranslationUnits = async (): Promise<number> =>
+  withStore<number>('translationMemory', 'readonly', store => store.count());
+
+export const clearTranslationMemory = async (): Promise<void> => {
+  await withStore('translationMemory', 'readwrite', store => store.clear());
+};
+
+// Imported units replace stored ones with the same pair and source. A failed
+// import leaves the memory as it was.
+export const importTranslationUnits = async (units: TranslationUnit[]): Promise<void> => {
+  await withTransaction('translationMemory', 'readwrite', store => units.forEach(unit => store.put(unit)));
+};
+
+// Lookups and writes are best effort: without IndexedDB, translation just
+// goes to the model every time
+export const translationMemory: TranslationMemory = {
+  lookup: async (pair, source) => {
+    try {
+      return (await findExactMatch(pair, source))?.target;
+    } catch {
+      return undefined;
+    }
+  },
+  store: async (pair, source, target) => {
+    try {
+      await addTranslationUnit(pair, source, target);
+    } catch {
+      // Nothing to do; the translation itself succeeded
+    }
+  },
+};
+
+// TMX 1.4 import/export
+
+const tmxDate = (time: number): string => new Date(time).toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '');
+
+const parseTmxDate = (value: string | null): number | undefined => {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+  return match ? Date.UTC(+match[1], +match[2] - 1, +match[3], +match[4], +match[5], +match[6]) : undefined;
+};
+
+export const translationMemoryToTMX = (units: TranslationUnit[]): string => [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<tmx version="1.4">',
+  '  <header creationtool="Text Processor" creationtoolversion="1" datatype="plaintext" segtype="sentence" adminlang="en" srclang="*all*" o-tmf="text-processor"/>',
+  '  <body>',
+  ...units.map(unit => [
+    `    <tu srclang="${escapeXML(unit.sourceLanguage)}" changedate="${tmxDate(unit.updatedAt)}">`,
+    `      <tuv xml:lang="${escapeXML(unit.sourceLanguage)}"><seg>${escapeXML(unit.source)}</seg></tuv>`,
+    `      <tuv xml:lang="${escapeXML(unit.targetLanguage)}"><seg>${escapeXML(unit.target)}</seg></tuv>`,
+    '    </tu>',
+  ].join('\n')),
+  '  </body>',
+  '</tmx>',
+  '',
+].join('\n');
+
+// Inline markup codes (bpt, ept, ph, it, ut) hold native formatting, not text
+const segmentText = (seg: Element): string => {
+  const copy = seg.cloneNode(true) as Element;
+  copy.querySelectorAll('bpt, ept, ph, it, ut').forEach(code => code.remove());
+  return copy.textContent ?? '';
+};
+
+// A tu may hold several languages: each one other than the source becomes a unit
+export const translationMemoryFromTMX = (source: string): TranslationUnit[] => {
+  const document = parseXML(source, 'TMX file');
+  if (!document.querySelector('tmx')) {
+    throw new Error('The file is not a TMX translation memory.');
+  }
+
+  const headerLanguage = document.querySelector('header')?.getAttribute('srclang');
+  const units: TranslationUnit[] = [];
+  for (const tu of document.querySelectorAll('tu')) {
+    const variants = [...tu.querySelectorAll('tuv')]
+      .map(tuv => ({
+        // TMX 1.1 used lang rather than xml:lang
+        rawLanguage: tuv.getAttribute('xml:lang') ?? tuv.getAttribute('lang') ?? '',
+        text: segmentText(tuv.querySelector('seg') ?? tuv),
+      }))
+      .filter(({ rawLanguage, text }) => rawLanguage && normalizeSegment(text))
+      .map(({ rawLanguage, text }) => ({ rawLanguage, language: toTranslatorLanguage(rawLanguage), text }));
+    const sourceLanguage = tu.getAttribute('srclang') ?? (headerLanguage !== '*all*' ? headerLanguage : null);
+    const sourceVariant = variants.find(({ rawLanguage }) => rawLanguage.toLowerCase() === sourceLanguage?.toLowerCase())
+      ?? variants[0];
+    if (!sourceVariant) continue;
+
+    const updatedAt = parseTmxDate(tu.getAttribute('changedate') ?? tu.getAttribute('creationdate'));
+    for (const variant of variants) {
+      if (variant === sourceVariant) continue;
+      const pair = { sourceLanguage: sourceVariant.language, targetLanguage: variant.language };
+      units.push(createUnit(pair, sourceVariant.text, variant.text, updatedAt));
+    }
+  }
+  return units;
+};
@@ -0,0 +1,11 @@
+export const escapeXML = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Throws with `description` in the message when the file is not well-formed
+export const parseXML = (source: string, description: string): Document => {
+  const document = new DOMParser().parseFromString(source, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`The ${description} is not valid XML.`);
+  }
+  return document;
+};
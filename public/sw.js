@@ -0,0 +1,69 @@
+// Caches the app shell so the app opens without a connection. Model files
+// are managed by Chrome; /api and RSC data requests always go to the network.
+const CACHE_NAME = 'text-processor-shell-v2';
+const SHELL_URLS = ['/', '/batch', '/manifest.webmanifest', '/icons/icon.svg', '/favicon.ico'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME).then((cache) => cache.addAll(SHELL_URLS)).then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// The page sends the scripts and styles it loaded before the worker took control
+self.addEventListener('message', (event) => {
+  if (event.data?.type !== 'CACHE_URLS') return;
+  const urls = event.data.urls.filter((url) => new URL(url).origin === self.location.origin);
+  event.waitUntil(caches.open(CACHE_NAME).then((cache) => cache.addAll(urls)).catch(() => {}));
+});
+
+const networkFirst = async (request) => {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    // Only page loads get the app shell; other requests must not receive HTML
+    const cached = await cache.match(request) ?? (request.mode === 'navigate' ? await cache.match('/') : undefined);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+// Build assets have content hashes in their names, so a cached copy never goes stale
+const cacheFirst = async (request) => {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+};
+
+// React Server Component payloads and data requests change with every
+// navigation; caching them would fill the cache without bound
+const isDataRequest = (request, url) =>
+  url.searchParams.has('_rsc') || request.headers.get('RSC') === '1' || url.pathname.startsWith('/_next/data/');
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+  if (isDataRequest(request, url)) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request));
+  } else if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(request));
+  } else {
+    event.respondWith(networkFirst(request));
+  }
+});
@@ -0,0 +1,7 @@
+import { cleanup } from '@testing-library/react';
+import { afterEach } from 'vitest';
+
+// jsdom has no layout, so scrolling is a no-op
+Element.prototype.scrollIntoView = () => {};
+
+afterEach(cleanup);